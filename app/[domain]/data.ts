@@ -0,0 +1,121 @@
+import { cache } from "react";
+import {
+  beautifyENSName,
+  createRpcClient,
+  ENSHistoryError,
+  fetchOwnerProfiles,
+  getCache,
+  getENSHistory,
+  normalizeENSName,
+  ZERO_ADDRESS,
+} from "@/lib/ens-history";
+import type { ENSHistory } from "@/types/ens";
+
+export type DomainHistoryResult = { history: ENSHistory } | { error: string; status: number };
+
+// Route segments arrive percent-encoded; a malformed escape (e.g. "/%E0") is left as typed and
+// rejected by normalization like any other invalid name
+export const decodeDomain = (domain: string): string => {
+  try {
+    return decodeURIComponent(domain);
+  } catch {
+    return domain;
+  }
+};
+
+// Full history for a [domain] route segment, fetched once per request and shared by the page
+// and its metadata. Lasting client errors (an invalid or unknown name) are returned the way
+// /api/ens reports them; rate limits and server errors are rethrown, so a failed render is never
+// cached for the page's revalidate period
+export const getDomainHistory = cache(async (domain: string): Promise<DomainHistoryResult> => {
+  try {
+    return { history: await getENSHistory(decodeDomain(domain)) };
+  } catch (error) {
+    if (error instanceof ENSHistoryError && error.status < 500 && error.status !== 429) {
+      return { error: error.message, status: error.status };
+    }
+    throw error;
+  }
+});
+
+// What the share card and page metadata say about a name
+export interface DomainSummary {
+  name: string; // Normalized
+  displayName: string; // Beautified, with known labels decoded
+  owner?: { address: string; ensName?: string; avatar?: string };
+  pastOwnerCount: number; // Distinct earlier owners, the current one excluded
+  registeredSince?: Date;
+  expiryDate?: Date;
+  periods: Array<{ address: string; start: Date; end: Date }>; // Oldest first, for the timeline bar
+}
+
+// Summary of a built history; the current owner keeps whatever profile the history carries
+const summarize = (name: string, history: ENSHistory): DomainSummary => {
+  const now = new Date();
+  const current = history.currentOwner;
+  const periods = (current ? [...history.owners, current] : history.owners).map((owner) => ({
+    address: owner.address,
+    start: owner.startDate,
+    end: owner === current || !owner.endDate || owner.endDate > now ? now : owner.endDate,
+  }));
+  const currentAddress = current?.address.toLowerCase();
+
+  return {
+    name,
+    displayName: beautifyENSName(history.name),
+    owner: current && { address: current.address, ensName: current.ensName, avatar: current.avatar },
+    pastOwnerCount: new Set(
+      history.owners.map((owner) => owner.address.toLowerCase()).filter((address) => address !== currentAddress)
+    ).size,
+    registeredSince: history.domain.registrationDate ?? periods[0]?.start,
+    expiryDate: history.expiryDate,
+    periods,
+  };
+};
+
+// Summary for a [domain] route segment, or null when the name is invalid or can't be loaded
+// Used by generateMetadata, where it shares the page's full history within one request
+export const getDomainSummary = cache(async (domain: string): Promise<DomainSummary | null> => {
+  let name: string;
+  try {
+    name = normalizeENSName(decodeDomain(domain));
+  } catch {
+    return null;
+  }
+
+  let result: DomainHistoryResult;
+  try {
+    result = await getDomainHistory(domain);
+  } catch {
+    return null;
+  }
+  if ("error" in result) return null;
+
+  return summarize(name, result.history);
+});
+
+// Lighter summary for the image routes, which render on their own requests: no sale lookups and
+// no profiles for past owners, only the current owner's primary name and avatar
+export const getDomainImageSummary = cache(async (domain: string): Promise<DomainSummary | null> => {
+  let name: string;
+  try {
+    name = normalizeENSName(decodeDomain(domain));
+  } catch {
+    return null;
+  }
+
+  try {
+    const history = await getENSHistory(name, { includeSales: false, includeProfile: false });
+    const owner = history.currentOwner;
+    if (owner && owner.address !== ZERO_ADDRESS) {
+      const profiles = await fetchOwnerProfiles([owner.address], {
+        publicClient: createRpcClient(),
+        cache: await getCache(),
+      });
+      history.currentOwner = { ...owner, ...profiles.get(owner.address.toLowerCase()) };
+    }
+    return summarize(name, history);
+  } catch {
+    return null;
+  }
+});
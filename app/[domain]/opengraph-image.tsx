@@ -0,0 +1,116 @@
+import { ImageResponse } from "next/og";
+import { decodeDomain, getDomainImageSummary } from "./data";
+
+export const alt = "ENS ownership history on pastens";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+// Alternating owner colors for the timeline bar
+const SEGMENT_COLORS = ["#0080BC", "#093C52", "#5FB3DA", "#2A6F8F"];
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat("en-US", { year: "numeric", month: "short", day: "numeric" }).format(date);
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Avatars are inlined as data URLs: a broken image URL would fail the whole card
+// Only formats the renderer reads are kept; anything else falls back to the placeholder
+async function loadAvatar(url: string | undefined): Promise<string | undefined> {
+  if (!url || !url.startsWith("https://")) return undefined;
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(3000) });
+    const type = response.headers.get("content-type")?.split(";")[0] ?? "";
+    if (!response.ok || !["image/png", "image/jpeg", "image/gif"].includes(type)) return undefined;
+    const bytes = Buffer.from(await response.arrayBuffer());
+    return `data:${type};base64,${bytes.toString("base64")}`;
+  } catch {
+    return undefined;
+  }
+}
+
+// Per-name share card: name, current owner, past owners, registration date and a timeline bar
+export default async function Image({ params }: { params: Promise<{ domain: string }> }) {
+  const { domain } = await params;
+  const summary = await getDomainImageSummary(domain);
+  const avatar = await loadAvatar(summary?.owner?.avatar);
+
+  const first = summary?.periods[0]?.start.getTime() ?? 0;
+  const span = summary && summary.periods.length > 0 ? Date.now() - first : 0;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: "64px 72px",
+          background: "linear-gradient(135deg, #EFF6FF 0%, #FFFFFF 50%, #FAF5FF 100%)",
+          color: "#011A25",
+        }}
+      >
+        <div style={{ display: "flex", fontSize: 32, color: "#6B7280" }}>pastens · ENS ownership history</div>
+
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          <div style={{ display: "flex", fontSize: 88, fontWeight: 700, lineHeight: 1.1 }}>
+            {summary?.displayName ?? decodeDomain(domain)}
+          </div>
+
+          {summary?.owner ? (
+            <div style={{ display: "flex", alignItems: "center", marginTop: 32 }}>
+              {avatar ? (
+                <img src={avatar} width={72} height={72} alt="" style={{ borderRadius: 36 }} />
+              ) : (
+                <div style={{ display: "flex", width: 72, height: 72, borderRadius: 36, background: "#093C52" }} />
+              )}
+              <div style={{ display: "flex", flexDirection: "column", marginLeft: 24 }}>
+                <div style={{ display: "flex", fontSize: 24, color: "#6B7280" }}>Owned by</div>
+                <div style={{ display: "flex", fontSize: 36, fontWeight: 600 }}>
+                  {summary.owner.ensName || formatAddress(summary.owner.address)}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div style={{ display: "flex", fontSize: 36, marginTop: 32, color: "#6B7280" }}>
+              See who owned this name and when
+            </div>
+          )}
+        </div>
+
+        {summary && (
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ display: "flex", fontSize: 28, marginBottom: 20 }}>
+              {[
+                `${summary.pastOwnerCount} past owner${summary.pastOwnerCount !== 1 ? "s" : ""}`,
+                summary.registeredSince && `registered since ${formatDate(summary.registeredSince)}`,
+                summary.expiryDate && `expires ${formatDate(summary.expiryDate)}`,
+              ].filter(Boolean).join(" · ")}
+            </div>
+            {span > 0 && (
+              // Gaps between owners (dormant or expired stretches) stay gray
+              <div style={{ display: "flex", position: "relative", width: "100%", height: 20, borderRadius: 10, overflow: "hidden", background: "#E5E7EB" }}>
+                {summary.periods.map((period, i) => (
+                  <div
+                    key={i}
+                    style={{
+                      display: "flex",
+                      position: "absolute",
+                      top: 0,
+                      left: `${((period.start.getTime() - first) / span) * 100}%`,
+                      width: `${(Math.max(period.end.getTime() - period.start.getTime(), 0) / span) * 100}%`,
+                      height: "100%",
+                      background: SEGMENT_COLORS[i % SEGMENT_COLORS.length],
+                    }}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    ),
+    size
+  );
+}
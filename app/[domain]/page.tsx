@@ -1,11 +1,84 @@
-"use client";
-
-import { use } from "react";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Suspense } from "react";
+import { serializeHistory } from "@/lib/ens-history";
+import DomainResults, { DomainResultsSkeleton } from "../components/DomainResults";
 import Home from "../page";
+import { decodeDomain, getDomainHistory, getDomainSummary } from "./data";
+
+interface DomainPageProps {
+  params: Promise<{ domain: string }>;
+}
+
+// Rendered pages are cached and regenerated in the background at most this often (seconds),
+// so repeat visits are served from the CDN instead of re-querying the subgraph
+export const revalidate = 300;
+
+// No names are prerendered at build time; each one is rendered on first request, then cached
+export async function generateStaticParams() {
+  return [];
+}
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat("en-US", { year: "numeric", month: "short", day: "numeric" }).format(date);
+
+// Per-name title and description; the share images come from opengraph-image / twitter-image
+export async function generateMetadata({ params }: DomainPageProps): Promise<Metadata> {
+  const { domain } = await params;
+  // Unknown names are a real 404; metadata resolves before the page is sent to crawlers
+  const result = await getDomainHistory(domain);
+  if ("error" in result && result.status === 404) notFound();
+  const summary = await getDomainSummary(domain);
+  const displayName = summary?.displayName ?? decodeDomain(domain);
+  const title = `${displayName} — ENS Ownership History | pastens`;
+
+  let description = `Every owner of ${displayName} and when the name changed hands`;
+  if (summary) {
+    const owner = summary.owner && (summary.owner.ensName || summary.owner.address);
+    description = [
+      `${displayName} has had ${summary.pastOwnerCount} past owner${summary.pastOwnerCount !== 1 ? "s" : ""}`,
+      summary.registeredSince && ` since ${formatDate(summary.registeredSince)}`,
+      owner && `. Currently owned by ${owner}`,
+      summary.expiryDate && `, expires ${formatDate(summary.expiryDate)}`,
+      ".",
+    ].filter(Boolean).join("");
+  }
+
+  return {
+    title,
+    description,
+    openGraph: { title, description },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
+// Fetches the history on the server and streams it in behind the Suspense boundary below
+async function DomainHistory({ domain }: { domain: string }) {
+  const result = await getDomainHistory(domain);
+  if ("error" in result) {
+    if (result.status === 404) notFound();
+    return (
+      <div className="text-center text-red-600">
+        <p className="text-lg font-semibold">Error</p>
+        <p className="text-sm mt-2">{result.error}</p>
+      </div>
+    );
+  }
+  return <DomainResults name={result.history.name} history={serializeHistory(result.history)} />;
+}
 
-export default function DomainPage({ params }: { params: Promise<{ domain: string }> }) {
-  const { domain } = use(params);
+export default async function DomainPage({ params }: DomainPageProps) {
+  const { domain } = await params;
   // Decode the domain (in case it's URL encoded)
-  const decodedDomain = decodeURIComponent(domain);
-  return <Home initialDomain={decodedDomain} />;
+  const decodedDomain = decodeDomain(domain);
+  return (
+    <Home
+      initialDomain={decodedDomain}
+      results={
+        <Suspense fallback={<DomainResultsSkeleton />}>
+          <DomainHistory domain={domain} />
+        </Suspense>
+      }
+    />
+  );
 }
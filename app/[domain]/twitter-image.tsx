@@ -0,0 +1,10 @@
+import OpenGraphImage from "./opengraph-image";
+
+// Same card as the Open Graph image (image metadata can't be re-exported, so it's repeated here)
+export const alt = "ENS ownership history on pastens";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+export default function Image(props: { params: Promise<{ domain: string }> }) {
+  return OpenGraphImage(props);
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { use } from "react";
+import Link from "next/link";
+import AddressPortfolio from "../../components/AddressPortfolio";
+
+export default function AddressPage({ params }: { params: Promise<{ address: string }> }) {
+  const { address } = use(params);
+  // Decode the address (in case it's a URL encoded ENS name)
+  const decodedAddress = decodeURIComponent(address);
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <main className="container mx-auto px-4 py-16">
+        <div className="max-w-4xl mx-auto">
+          <div className="mb-8">
+            <Link href="/" className="text-5xl font-normal text-gray-900 tracking-tight hover:opacity-80 transition-opacity">
+              pastens
+            </Link>
+            <p className="text-sm text-gray-500 mt-2">Every ENS name this address has held</p>
+          </div>
+          <div className="bg-white rounded-2xl shadow-xl p-4 md:p-8 border border-gray-200 overflow-hidden">
+            <AddressPortfolio address={decodedAddress} />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
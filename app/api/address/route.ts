@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ENSHistoryError, getAddressPortfolio, serializePortfolio } from "@/lib/ens-history";
+
+// Reverse lookup: every name an address (or the address behind an ENS name) has ever held
+export async function GET(request: NextRequest) {
+  const address = request.nextUrl.searchParams.get("address");
+
+  if (!address) {
+    return NextResponse.json({ error: "Address or ENS name is required" }, { status: 400 });
+  }
+
+  try {
+    const portfolio = await getAddressPortfolio(address);
+    return NextResponse.json(serializePortfolio(portfolio));
+  } catch (error) {
+    if (error instanceof ENSHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error fetching address portfolio:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch address portfolio" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getENSHistories, MAX_BATCH_NAMES, serializeBatchResult } from "@/lib/ens-history";
+
+// Histories of many names at once, streamed back as NDJSON (one result per line, in input order)
+// Body: { "names": ["ens.eth", "vitalik", ...] }
+export async function POST(request: NextRequest) {
+  let body: { names?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  const { names } = body;
+  if (!Array.isArray(names) || names.length === 0 || !names.every((name) => typeof name === "string")) {
+    return NextResponse.json({ error: "names must be a non-empty array of strings" }, { status: 400 });
+  }
+  if (names.length > MAX_BATCH_NAMES) {
+    return NextResponse.json({ error: `At most ${MAX_BATCH_NAMES} names per batch` }, { status: 400 });
+  }
+
+  // Errors are reported per name inside the stream, so the response itself is always 200
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const result of getENSHistories(names)) {
+          controller.enqueue(encoder.encode(JSON.stringify(serializeBatchResult(result)) + "\n"));
+        }
+      } catch (error) {
+        console.error("Error streaming ENS histories:", error);
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: { "Content-Type": "application/x-ndjson; charset=utf-8" },
+  });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ENSHistoryError, submitLabelGuess } from "@/lib/ens-history";
+
+// Submit a guess for a label the subgraph only knows by hash
+// Body: { "labelhash": "[abc…]" or "0xabc…", "label": "guess" }
+export async function POST(request: NextRequest) {
+  let body: { labelhash?: unknown; label?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  if (typeof body.labelhash !== "string" || typeof body.label !== "string" || !body.label.trim()) {
+    return NextResponse.json({ error: "labelhash and label are required" }, { status: 400 });
+  }
+
+  try {
+    const label = await submitLabelGuess(body.labelhash, body.label);
+    return NextResponse.json({ labelhash: body.labelhash, label });
+  } catch (error) {
+    if (error instanceof ENSHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error checking label guess:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to check label guess" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ENSHistoryError, getRecordsHistory, serializeRecordsHistory } from "@/lib/ens-history";
+
+// Resolver, address, contenthash and text record changes of a name
+export async function GET(request: NextRequest) {
+  const ensName = request.nextUrl.searchParams.get("name");
+
+  if (!ensName) {
+    return NextResponse.json({ error: "ENS name is required" }, { status: 400 });
+  }
+
+  try {
+    const records = await getRecordsHistory(ensName);
+    return NextResponse.json(serializeRecordsHistory(records));
+  } catch (error) {
+    if (error instanceof ENSHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error fetching ENS records history:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch records history" },
+      { status: 500 }
+    );
+  }
+}
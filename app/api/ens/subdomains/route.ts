@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ENSHistoryError, getSubdomains, serializeSubdomainTree } from "@/lib/ens-history";
+
+// Direct children of a name, with who created each and when
+export async function GET(request: NextRequest) {
+  const ensName = request.nextUrl.searchParams.get("name");
+
+  if (!ensName) {
+    return NextResponse.json({ error: "ENS name is required" }, { status: 400 });
+  }
+
+  try {
+    const tree = await getSubdomains(ensName);
+    return NextResponse.json(serializeSubdomainTree(tree));
+  } catch (error) {
+    if (error instanceof ENSHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error fetching subdomains:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch subdomains" },
+      { status: 500 }
+    );
+  }
+}
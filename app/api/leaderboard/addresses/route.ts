@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ADDRESS_LEADERBOARD_CATEGORIES,
+  ADDRESS_LEADERBOARD_UNITS,
+  createRpcClient,
+  DEFAULT_FLIP_DAYS,
+  ENSHistoryError,
+  fetchOwnerProfiles,
+  getAddressRanking,
+  getCache,
+  getIndexStatus,
+  getLeaderboardIndex,
+  parseLeaderboardParams,
+  readCached,
+  startLeaderboardIndexer,
+  writeCached,
+  type AddressLeaderboardCategory,
+  type AddressLeaderboardEntry,
+  type LeaderboardUnit,
+  type LeaderboardWindow,
+  type NameClub,
+} from "@/lib/ens-history";
+
+const MAX_FLIP_DAYS = 365;
+
+// Boards are cached in the shared cache (ENS_CACHE) for 5 minutes: they group the whole ownership log
+const CACHE_TTL = 5 * 60 * 1000;
+
+interface AddressLeaderboardData {
+  category: AddressLeaderboardCategory;
+  window: LeaderboardWindow;
+  club: NameClub | null;
+  days: number;
+  unit: LeaderboardUnit;
+  leaderboard: AddressLeaderboardEntry[];
+  totalTransfersAnalyzed: number;
+  complete: boolean;
+}
+
+// Owner boards from the same leaderboard index as /api/leaderboard
+// ?category=acquisitions|flips|held|holding&window=24h|7d|30d|all&club=3-letter|999|10k|emoji&days=&limit=&offset=
+export async function GET(request: NextRequest) {
+  const days = Number(request.nextUrl.searchParams.get("days") ?? DEFAULT_FLIP_DAYS);
+
+  try {
+    const { category, window, club, limit, offset } = parseLeaderboardParams(
+      request.nextUrl.searchParams,
+      ADDRESS_LEADERBOARD_CATEGORIES,
+      "acquisitions"
+    );
+    if (!Number.isInteger(days) || days < 1 || days > MAX_FLIP_DAYS) {
+      return NextResponse.json({ error: `days must be between 1 and ${MAX_FLIP_DAYS}` }, { status: 400 });
+    }
+
+    const index = await getLeaderboardIndex();
+    if (!index) {
+      return NextResponse.json({ error: "The leaderboard index is disabled" }, { status: 503 });
+    }
+    // No-op once running; covers servers started without instrumentation
+    startLeaderboardIndexer();
+
+    const cache = await getCache();
+    const cacheKey = `leaderboard:addresses:${category}:${window}:${club ?? ""}:${days}:${limit}:${offset}`;
+    let data = cache && (await readCached<AddressLeaderboardData>(cache, cacheKey));
+    if (!data) {
+      const status = getIndexStatus(index);
+      const leaderboard = getAddressRanking(index, {
+        category,
+        window,
+        club: club ?? undefined,
+        flipDays: days,
+        limit,
+        offset,
+      });
+
+      // Primary names and avatars, within the usual enrichment budget
+      const profiles = await fetchOwnerProfiles(
+        leaderboard.map((entry) => entry.address),
+        { publicClient: createRpcClient(), cache }
+      );
+      for (const entry of leaderboard) {
+        const profile = profiles.get(entry.address.toLowerCase());
+        if (profile?.ensName) entry.ensName = profile.ensName;
+        if (profile?.avatar) entry.avatar = profile.avatar;
+      }
+
+      data = {
+        category,
+        window,
+        club,
+        days,
+        unit: ADDRESS_LEADERBOARD_UNITS[category],
+        leaderboard,
+        totalTransfersAnalyzed: status.transfersIndexed,
+        complete: status.caughtUp,
+      };
+      if (cache) await writeCached(cache, cacheKey, data, CACHE_TTL);
+    }
+
+    return NextResponse.json(data, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=3600', // 5 min cache, 1 hour stale
+      },
+    });
+  } catch (error) {
+    if (error instanceof ENSHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error fetching address leaderboard:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch leaderboard" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ENSHistoryError,
+  getChurnScore,
+  getIndexStatus,
+  getLeaderboardIndex,
+  normalizeENSName,
+  startLeaderboardIndexer,
+} from "@/lib/ens-history";
+
+// Churn score of a name: how its ownership changes compare with every .eth name in the leaderboard index
+export async function GET(request: NextRequest) {
+  const ensName = request.nextUrl.searchParams.get("name");
+
+  if (!ensName) {
+    return NextResponse.json({ error: "ENS name is required" }, { status: 400 });
+  }
+
+  try {
+    const name = normalizeENSName(ensName);
+    const index = await getLeaderboardIndex();
+    if (!index) {
+      return NextResponse.json({ error: "The leaderboard index is disabled" }, { status: 503 });
+    }
+    // No-op once running; covers servers started without instrumentation
+    startLeaderboardIndexer();
+
+    const churn = getChurnScore(index, name);
+    if (!churn) {
+      return NextResponse.json({ error: `${name} isn't in the leaderboard index yet` }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { name, ...churn, complete: getIndexStatus(index).caughtUp },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=3600', // 5 min cache, 1 hour stale
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof ENSHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error fetching churn score:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch churn score" },
+      { status: 500 }
+    );
+  }
+}
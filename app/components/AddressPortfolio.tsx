@@ -0,0 +1,168 @@
+"use client";
+
+import Link from "next/link";
+import { Clock, ExternalLink, Wallet } from "lucide-react";
+import { useEffect, useState } from "react";
+import { beautifyENSName } from "@/lib/ens-history/names";
+import type { ENSPortfolioResponse } from "@/types/ens";
+
+interface AddressPortfolioProps {
+  address: string; // Address or ENS name
+}
+
+const ACQUISITION_LABELS: Record<string, string> = {
+  registration: "Registered",
+  transfer: "Transfer",
+  marketplace: "Marketplace",
+};
+
+export default function AddressPortfolio({ address }: AddressPortfolioProps) {
+  const [data, setData] = useState<ENSPortfolioResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPortfolio = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(`/api/address?address=${encodeURIComponent(address)}`);
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          setError(errorData.error || "Failed to fetch address portfolio");
+          return;
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        console.error("Error fetching address portfolio:", err);
+        setError(err instanceof Error ? err.message : "Failed to fetch address portfolio");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPortfolio();
+  }, [address]);
+
+  // Dates derived from block numbers are prefixed with "~"
+  const formatDate = (date: string | undefined, estimated?: boolean) => {
+    if (!date) return "Unknown";
+    const formatted = new Intl.DateTimeFormat("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    }).format(new Date(date));
+    return estimated ? `~${formatted}` : formatted;
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-4 animate-pulse">
+        <div className="h-10 w-64 bg-gray-200 rounded mb-2"></div>
+        <div className="h-4 w-48 bg-gray-200 rounded mb-8"></div>
+        {[...Array(5)].map((_, i) => (
+          <div key={i} className="flex items-center gap-4 p-4 bg-gray-50 rounded-lg">
+            <div className="flex-1">
+              <div className="h-4 bg-gray-200 rounded w-40 mb-2"></div>
+              <div className="h-3 bg-gray-200 rounded w-56"></div>
+            </div>
+            <div className="h-6 w-20 bg-gray-200 rounded-full"></div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-center text-red-600">
+        <p className="text-lg font-semibold">Error</p>
+        <p className="text-sm mt-2">{error || "Failed to fetch address portfolio"}</p>
+      </div>
+    );
+  }
+
+  const currentCount = data.holdings.filter((holding) => holding.isCurrent).length;
+
+  return (
+    <div>
+      {/* Address Label */}
+      <div className="mb-8 text-left">
+        <h2 className="text-2xl md:text-4xl font-bold mb-2 break-all" style={{ color: '#011A25' }}>
+          {data.ensName || data.address}
+        </h2>
+        {data.ensName && (
+          <p className="font-mono text-xs md:text-sm break-all mb-1" style={{ color: '#011A25', opacity: 0.6 }}>
+            {data.address}
+          </p>
+        )}
+        <p className="text-sm" style={{ color: '#011A25', opacity: 0.7 }}>
+          {data.holdings.length} holding{data.holdings.length !== 1 ? "s" : ""} · {currentCount} currently held
+        </p>
+        {data.truncated && (
+          <p className="mt-2 text-xs text-amber-700">
+            This address has held a very large number of names; only part of its portfolio is shown.
+          </p>
+        )}
+      </div>
+
+      {data.holdings.length === 0 ? (
+        <div className="text-center py-12">
+          <Wallet className="text-gray-400 mx-auto mb-4" size={40} />
+          <p className="text-gray-500">This address has never held an ENS name</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {data.holdings.map((holding, index) => (
+            <div
+              key={`${holding.name}-${holding.acquiredDate}-${index}`}
+              className={`flex flex-col sm:flex-row sm:items-center gap-3 p-3 md:p-4 rounded-lg border-2 ${holding.isCurrent ? 'border-emerald-200 bg-emerald-50' : 'border-gray-200 bg-white'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <Link
+                  href={`/${holding.name}`}
+                  className="font-bold text-base md:text-lg font-mono break-all hover:underline"
+                  style={{ color: '#011A25' }}
+                >
+                  {beautifyENSName(holding.name)}
+                </Link>
+                <div className="flex items-center gap-2 text-xs md:text-sm mt-1" style={{ color: '#011A25', opacity: 0.7 }}>
+                  <Clock size={14} className="flex-shrink-0" />
+                  <span>
+                    {formatDate(holding.acquiredDate, holding.acquiredDateEstimated)} →{" "}
+                    {holding.isCurrent ? "Now" : formatDate(holding.releasedDate, holding.releasedDateEstimated)}
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span className={`px-2 py-1 text-xs font-semibold rounded-full shadow-sm ${holding.acquiredVia === "marketplace" ? 'bg-yellow-100 text-yellow-800' : holding.acquiredVia === "registration" ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'}`}>
+                  {holding.acquiredVia === "marketplace" && holding.marketplaceName
+                    ? holding.marketplaceName
+                    : ACQUISITION_LABELS[holding.acquiredVia]}
+                </span>
+                {holding.isCurrent && (
+                  <span className="px-2 py-1 text-xs font-semibold bg-emerald-100 text-emerald-800 rounded-full shadow-sm">
+                    Current
+                  </span>
+                )}
+                {holding.transactionHash && (
+                  <a
+                    href={`https://etherscan.io/tx/${holding.transactionHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-gray-400 hover:text-gray-600 transition-colors"
+                    title="View transaction on Etherscan"
+                  >
+                    <ExternalLink size={16} />
+                  </a>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import Link from "next/link";
+import { AlertTriangle, Upload } from "lucide-react";
+import { useRef, useState } from "react";
+import { beautifyENSName, MAX_BATCH_NAMES, normalizeENSName } from "@/lib/ens-history/names";
+import type { ENSBatchResultResponse, ENSLifecycleStatus } from "@/types/ens";
+
+const STATUS_LABELS: Record<ENSLifecycleStatus, string> = {
+  active: "Active",
+  grace: "Grace period",
+  premium: "Premium auction",
+  available: "Available",
+};
+
+// Names from a pasted list: one per line, or separated by commas or spaces
+const parseNameList = (text: string) =>
+  text.split(/[\s,;]+/).map((name) => name.trim()).filter(Boolean);
+
+// Names from a CSV file: the "name" column when there's a header with one, otherwise the first column
+const parseNameCsv = (text: string) => {
+  const rows = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line) => line.split(",").map((cell) => cell.trim().replace(/^"(.*)"$/, "$1")));
+  if (rows.length === 0) return [];
+  const nameColumn = rows[0].findIndex((cell) => /^(ens[ _]?)?name$/i.test(cell));
+  const column = nameColumn === -1 ? 0 : nameColumn;
+  return (nameColumn === -1 ? rows : rows.slice(1)).map((row) => row[column] ?? "").filter(Boolean);
+};
+
+const formatDate = (date: string | undefined) => {
+  if (!date) return "-";
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  }).format(new Date(date));
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Number of results the API will stream: one per distinct normalized name, one per invalid entry
+const countResults = (names: string[]) => {
+  const normalized = new Set<string>();
+  let invalid = 0;
+  for (const name of names) {
+    try {
+      normalized.add(normalizeENSName(name));
+    } catch {
+      invalid++;
+    }
+  }
+  return normalized.size + invalid;
+};
+
+// Look up many names at once: paste a list or upload a CSV, results stream into a summary table
+export default function BatchLookup() {
+  const [input, setInput] = useState("");
+  const [results, setResults] = useState<ENSBatchResultResponse[]>([]);
+  const [total, setTotal] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const names = parseNameList(input);
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    setInput(parseNameCsv(text).join("\n"));
+  };
+
+  const runBatch = async () => {
+    setRunning(true);
+    setError(null);
+    setResults([]);
+    setTotal(countResults(names));
+
+    try {
+      const response = await fetch("/api/ens/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ names }),
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        setError(errorData.error || "Failed to fetch ENS histories");
+        return;
+      }
+
+      // One JSON result per line; a chunk may end mid-line
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        const parsed = lines.filter((line) => line.trim()).map((line) => JSON.parse(line) as ENSBatchResultResponse);
+        if (parsed.length > 0) setResults((prev) => [...prev, ...parsed]);
+        if (done) break;
+      }
+    } catch (err) {
+      console.error("Error fetching ENS histories:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch ENS histories");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const failed = results.filter((result) => "error" in result).length;
+
+  return (
+    <div>
+      <div className="mb-8 text-left">
+        <h2 className="text-2xl md:text-4xl font-bold mb-2" style={{ color: '#011A25' }}>
+          Batch lookup
+        </h2>
+        <p className="text-sm" style={{ color: '#011A25', opacity: 0.7 }}>
+          Paste names (one per line, or separated by commas) or upload a CSV with a name column
+        </p>
+      </div>
+
+      <textarea
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        placeholder={"ens.eth\nvitalik.eth\nnick.eth"}
+        rows={6}
+        className="w-full px-4 py-3 font-mono text-sm rounded-xl border-2 border-gray-200 bg-white text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        disabled={running}
+      />
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mt-3">
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv,text/plain"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          disabled={running}
+          className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold rounded-xl border-2 border-gray-200 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Upload size={16} />
+          Upload CSV
+        </button>
+        <span className="text-xs flex-1" style={{ color: '#011A25', opacity: 0.7 }}>
+          {names.length} name{names.length !== 1 ? "s" : ""}
+          {names.length > MAX_BATCH_NAMES && ` - at most ${MAX_BATCH_NAMES} per batch`}
+        </span>
+        <button
+          type="button"
+          onClick={runBatch}
+          disabled={running || names.length === 0 || names.length > MAX_BATCH_NAMES}
+          style={{ backgroundColor: '#093C52' }}
+          className="px-6 py-2 text-white font-semibold rounded-xl hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {running ? `Looking up ${results.length} / ${total}...` : "Look up"}
+        </button>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+      {results.length > 0 && (
+        <div className="mt-8">
+          <p className="text-sm mb-3" style={{ color: '#011A25', opacity: 0.7 }}>
+            {results.length - failed} found{failed > 0 && ` · ${failed} failed`}
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs md:text-sm" style={{ color: '#011A25' }}>
+              <thead>
+                <tr className="text-left border-b-2 border-gray-200">
+                  <th className="py-2 pr-4 font-semibold">Name</th>
+                  <th className="py-2 pr-4 font-semibold">Owner</th>
+                  <th className="py-2 pr-4 font-semibold">Owners</th>
+                  <th className="py-2 pr-4 font-semibold">Registered</th>
+                  <th className="py-2 pr-4 font-semibold">Expiry</th>
+                  <th className="py-2 font-semibold">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((result, index) => {
+                  if ("error" in result) {
+                    return (
+                      <tr key={`${result.name}-${index}`} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 font-mono break-all">{result.name}</td>
+                        <td colSpan={5} className="py-2 text-red-600">
+                          <span className="flex items-center gap-1">
+                            <AlertTriangle size={14} className="flex-shrink-0" />
+                            {result.error}
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  }
+
+                  const { history } = result;
+                  const periods = history.currentOwner ? [...history.owners, history.currentOwner] : history.owners;
+                  const ownerCount = new Set(periods.map((owner) => owner.address.toLowerCase())).size;
+                  return (
+                    <tr key={`${result.name}-${index}`} className="border-b border-gray-100">
+                      <td className="py-2 pr-4">
+                        <Link href={`/${result.name}`} className="font-mono font-semibold break-all hover:underline">
+                          {beautifyENSName(history.name)}
+                        </Link>
+                        {history.truncated && (
+                          <span className="ml-1 text-amber-700" title="Not every transfer could be loaded">*</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 font-mono">
+                        {history.currentOwner ? (
+                          <Link href={`/address/${history.currentOwner.address}`} className="hover:underline">
+                            {formatAddress(history.currentOwner.address)}
+                          </Link>
+                        ) : "-"}
+                      </td>
+                      <td className="py-2 pr-4">{ownerCount}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDate(periods[0]?.startDate)}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDate(history.expiryDate)}</td>
+                      <td className="py-2 whitespace-nowrap">
+                        {history.lifecycle ? STATUS_LABELS[history.lifecycle.status] : "-"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
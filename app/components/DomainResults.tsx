@@ -0,0 +1,78 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+import { beautifyENSName } from "@/lib/ens-history/names";
+import type { ENSHistoryResponse } from "@/types/ens";
+import ENSHistory from "./ENSHistory";
+import ENSHistorySkeleton from "./ENSHistorySkeleton";
+import LabelGuess from "./LabelGuess";
+import { addToSearchHistory } from "./searchHistory";
+
+interface DomainResultsProps {
+  name: string; // Normalized name the history was looked up by
+  history: ENSHistoryResponse;
+}
+
+// Shown while a name page streams in
+export function DomainResultsSkeleton() {
+  return (
+    <>
+      {/* ENS Name Label Skeleton */}
+      <div className="mb-8 text-left animate-pulse">
+        <div className="h-10 w-48 bg-gray-200 rounded mb-2"></div>
+        <div className="h-4 w-32 bg-gray-200 rounded"></div>
+      </div>
+      <ENSHistorySkeleton />
+    </>
+  );
+}
+
+// Results area of a name page, rendered from the history the server fetched
+export default function DomainResults({ name, history }: DomainResultsProps) {
+  const router = useRouter();
+
+  // Save to search history once the name has loaded
+  useEffect(() => {
+    addToSearchHistory(name);
+  }, [name]);
+
+  return (
+    <>
+      {/* ENS Name Label */}
+      <div className="mb-8 text-left">
+        <h2 className="text-4xl font-bold mb-2" style={{ color: '#011A25' }}>
+          {beautifyENSName(history.name)}
+        </h2>
+        <p className="text-sm" style={{ color: '#011A25', opacity: 0.7 }}>
+          Ownership history
+        </p>
+        {/* A guessed label was confirmed - reload under the plain-text name */}
+        <LabelGuess key={history.name} name={history.name} onResolved={(resolved) => router.push(`/${resolved}`)} />
+        {history.truncated && (
+          <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-xs md:text-sm text-amber-800">
+            <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+            <span>
+              This name has a very long history and not every transfer or registration could be loaded. The timeline below may be incomplete.
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* History Timeline */}
+      <ENSHistory
+        key={history.name}
+        ensName={history.name}
+        owners={history.owners}
+        currentOwner={history.currentOwner}
+        expiryDate={history.expiryDate}
+        burnEvents={history.burnEvents}
+        roles={history.roles}
+        registrationEvents={history.registrationEvents}
+        lapses={history.lapses}
+        rawResponse={history}
+      />
+    </>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { BarChart3 } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import type { ChurnScore } from "@/lib/ens-history/rankings";
+import type { TimelinePeriod } from "./ENSHistory";
+
+interface DomainStatsProps {
+  ensName: string;
+  timeline: TimelinePeriod[]; // Oldest first
+  expiryDate?: string;
+}
+
+interface ChurnData extends ChurnScore {
+  complete: boolean; // false while the leaderboard index is still catching up
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+
+// The two largest units, e.g. "2 years, 3 months"
+const formatSpan = (ms: number) => {
+  const totalDays = Math.floor(ms / DAY_MS);
+  const units: Array<[string, number]> = [
+    ["year", Math.floor(totalDays / 365)],
+    ["month", Math.floor((totalDays % 365) / 30)],
+    ["day", (totalDays % 365) % 30],
+  ];
+  const parts = units.filter(([, value]) => value > 0).map(([unit, value]) => `${value} ${unit}${value > 1 ? "s" : ""}`);
+  return parts.length === 0 ? "Less than a day" : parts.slice(0, 2).join(", ");
+};
+
+// Ownership periods, as opposed to events (burns, registrations) and gaps (dormant, expired)
+const isHolding = (period: TimelinePeriod) =>
+  !period.isDormant && !period.isBurned && !period.registrationEvent && !period.lapse;
+
+// At-a-glance summary of a name's history, from the same periods the timeline shows
+// The churn score compares the name with every .eth name in the leaderboard index
+export default function DomainStats({ ensName, timeline, expiryDate }: DomainStatsProps) {
+  const [churn, setChurn] = useState<ChurnData | null>(null);
+
+  // Enrichment only: left out when the index is disabled or hasn't reached the name yet
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/leaderboard/churn?name=${encodeURIComponent(ensName)}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: ChurnData | null) => {
+        if (!cancelled) setChurn(data);
+      })
+      .catch((err) => console.error("Error fetching churn score:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [ensName]);
+
+  const stats = useMemo(() => {
+    const holdings = timeline.filter(isHolding);
+    if (holdings.length === 0) return null;
+    const now = new Date().getTime();
+
+    const durations = holdings.map((period) => period.duration).sort((a, b) => a - b);
+    const middle = Math.floor(durations.length / 2);
+    const medianHold = durations.length % 2 ? durations[middle] : (durations[middle - 1] + durations[middle]) / 2;
+
+    // A holding that continues after a re-registration isn't a transfer
+    // Each run of holdings by one owner is a stint; owners with several stints came back to the name
+    let lastTransfer = holdings[0].startDate;
+    let changes = 0;
+    const stints = new Map<string, number>();
+    holdings.forEach((period, i) => {
+      const address = period.owner.address.toLowerCase();
+      if (i > 0 && address === holdings[i - 1].owner.address.toLowerCase()) return;
+      if (i > 0) {
+        lastTransfer = period.startDate;
+        changes++;
+      }
+      stints.set(address, (stints.get(address) ?? 0) + 1);
+    });
+
+    // Past lapses, plus the current one if the name has expired and wasn't registered again
+    const lifespan = now - timeline[0].startDate.getTime();
+    const expiry = expiryDate ? new Date(expiryDate).getTime() : NaN;
+    const expired =
+      timeline.filter((period) => period.lapse).reduce((total, period) => total + period.duration, 0) +
+      (expiry < now ? now - expiry : 0);
+
+    return {
+      owners: stints.size,
+      returningOwners: [...stints.values()].filter((count) => count > 1).length,
+      changesPerYear: lifespan > 0 ? changes / (lifespan / YEAR_MS) : 0,
+      medianHold,
+      longestHold: durations[durations.length - 1],
+      dormant: timeline.filter((period) => period.isDormant).reduce((total, period) => total + period.duration, 0),
+      sales: holdings.filter((period) => period.owner.sale).length,
+      sinceLastTransfer: now - lastTransfer.getTime(),
+      expiredShare: lifespan > 0 ? Math.min(expired / lifespan, 1) : 0,
+    };
+  }, [timeline, expiryDate]);
+
+  if (!stats) return null;
+
+  const tiles: Array<{ label: string; value: string; detail?: string }> = [
+    { label: "Owners", value: stats.owners.toLocaleString() },
+    { label: "Median hold", value: formatSpan(stats.medianHold) },
+    { label: "Longest hold", value: formatSpan(stats.longestHold) },
+    { label: "Dormant", value: stats.dormant > 0 ? formatSpan(stats.dormant) : "Never" },
+    { label: "Marketplace sales", value: stats.sales.toLocaleString() },
+    { label: "Since last transfer", value: formatSpan(stats.sinceLastTransfer) },
+    { label: "Flip velocity", value: `${stats.changesPerYear.toFixed(1)}/year`, detail: "changes of owner" },
+    {
+      label: "Owner overlap",
+      value: `${stats.returningOwners} of ${stats.owners}`,
+      detail: "owners held it more than once",
+    },
+    { label: "Time expired", value: `${(stats.expiredShare * 100).toFixed(stats.expiredShare > 0 && stats.expiredShare < 0.01 ? 1 : 0)}%`, detail: "of its life" },
+  ];
+  if (churn) {
+    tiles.push({
+      label: "Churn score",
+      value: `${churn.score}/100`,
+      detail: `${churn.changes} ownership change${churn.changes !== 1 ? "s" : ""}, more than ${churn.score}% of .eth names${churn.complete ? "" : " indexed so far"}`,
+    });
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4 md:p-5">
+      <h3 className="flex items-center gap-2 text-sm font-medium mb-3" style={{ color: '#011A25' }}>
+        <BarChart3 size={16} className="text-gray-400" />
+        At a glance
+      </h3>
+      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 md:gap-4">
+        {tiles.map((tile) => (
+          <div key={tile.label}>
+            <dt className="text-xs" style={{ color: '#011A25', opacity: 0.6 }}>
+              {tile.label}
+            </dt>
+            <dd className="text-sm md:text-base font-semibold" style={{ color: '#011A25' }}>
+              {tile.value}
+            </dd>
+            {tile.detail && (
+              <dd className="text-xs" style={{ color: '#011A25', opacity: 0.6 }}>
+                {tile.detail}
+              </dd>
+            )}
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
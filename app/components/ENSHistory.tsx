@@ -1,13 +1,33 @@
 "use client";
 
-import { Clock, User, ExternalLink, Circle } from "lucide-react";
-import { useMemo } from "react";
+import Link from "next/link";
+import { Clock, User, ExternalLink, Circle, Wallet, RefreshCw, CalendarSearch } from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+import type {
+  ENSHistoryResponse,
+  ENSLapseResponse,
+  ENSLifecycleStatus,
+  ENSOwnerRole,
+  ENSRecordsHistoryResponse,
+  ENSRegistrationEventResponse,
+  ENSSale,
+} from "@/types/ens";
+import { getLifecycle, getLifecycleStatus } from "@/lib/ens-history/lifecycle";
+import { getPeriodAt, getRecordsAt, getStatusAt } from "@/lib/ens-history/pointInTime";
+import { ROLE_LABELS } from "@/lib/ens-history/roles";
+import DomainStats from "./DomainStats";
+import GanttTimeline from "./GanttTimeline";
+import RecordsHistory from "./RecordsHistory";
+import SubdomainTree from "./SubdomainTree";
+import TimelineExport from "./TimelineExport";
 
 export interface ENSOwner {
   address: string;
   ensName?: string;
   startDate: Date | string;
   endDate?: Date | string;
+  startDateEstimated?: boolean;
+  endDateEstimated?: boolean;
   transactionHash: string;
   isMarketplace?: boolean;
   marketplaceName?: string;
@@ -15,12 +35,15 @@ export interface ENSOwner {
   isBurned?: boolean;
   followersCount?: number;
   followingCount?: number;
+  changedRoles?: ENSOwnerRole[];
+  sale?: ENSSale;
 }
 
 interface BurnEvent {
   date: string;
   transactionHash: string;
   blockNumber: string;
+  estimated?: boolean;
 }
 
 interface ENSHistoryProps {
@@ -29,21 +52,38 @@ interface ENSHistoryProps {
   currentOwner?: ENSOwner;
   expiryDate?: string;
   burnEvents?: BurnEvent[];
+  roles?: ENSHistoryResponse["roles"];
+  registrationEvents?: ENSRegistrationEventResponse[];
+  lapses?: ENSLapseResponse[];
+  rawResponse?: unknown; // The API response, offered as a JSON export
 }
 
-interface TimelinePeriod {
+const LIFECYCLE_LABELS: Record<ENSLifecycleStatus, string> = {
+  active: "Active",
+  grace: "Grace period",
+  premium: "Premium auction",
+  available: "Available",
+};
+
+export interface TimelinePeriod {
   owner: ENSOwner;
   startDate: Date;
   endDate: Date | null; // null means current/ongoing
+  startEstimated?: boolean; // true when the date was derived from the block number
+  endEstimated?: boolean;
   isDormant: boolean;
   isBurned?: boolean; // true if this is a burn event (no duration)
   burnTransactionHash?: string; // transaction hash for burn events
+  registrationEvent?: ENSRegistrationEventResponse; // set for registration / renewal events (no duration)
+  lapse?: ENSLapseResponse; // set for the expired stretch between expiry and re-registration
   isMarketplace?: boolean;
   marketplaceName?: string;
   duration: number; // in milliseconds (0 for burn events)
 }
 
-export default function ENSHistory({ ensName, owners, currentOwner, expiryDate, burnEvents = [] }: ENSHistoryProps) {
+const GANTT_OWNER_THRESHOLD = 30;
+
+export default function ENSHistory({ ensName, owners, currentOwner, expiryDate, burnEvents = [], roles, registrationEvents = [], lapses = [], rawResponse }: ENSHistoryProps) {
   const formatDate = (date: Date | string | undefined) => {
     if (!date) return "Unknown";
     
@@ -78,6 +118,10 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
     }).format(dateObj);
   };
 
+  // Dates derived from block numbers are only shown to the day, prefixed with "~"
+  const formatDateEstimated = (date: Date | string | undefined, estimated?: boolean) =>
+    estimated ? `~${formatDate(date)}` : formatDateFull(date);
+
   const formatAddress = (address: string) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
@@ -168,6 +212,7 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
       
       // Determine end date - use owner's endDate, or if it's the current owner, use their expiry date
       let endDate: Date | null = null;
+      let endEstimated: boolean | undefined;
       const isCurrentOwner = currentOwner && 
         owner.address.toLowerCase() === currentOwner.address.toLowerCase() &&
         (typeof owner.startDate === "string" ? owner.startDate : owner.startDate.toISOString()) ===
@@ -187,6 +232,24 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
       } else if (owner.endDate) {
         // Historical owner - use their endDate
         endDate = typeof owner.endDate === "string" ? new Date(owner.endDate) : owner.endDate;
+        endEstimated = owner.endDateEstimated;
+      }
+      
+      // If the name lapsed during this period, the owner only held it until expiry
+      const nextOwnerStart = i < finalOwners.length - 1
+        ? new Date(finalOwners[i + 1].startDate)
+        : now;
+      const lapse = isCurrentOwner ? undefined : lapses.find(l => {
+        const lapseExpiry = new Date(l.expiryDate);
+        return lapseExpiry >= startDate && lapseExpiry < nextOwnerStart;
+      });
+      const heldUntil = endDate;
+      if (lapse) {
+        const lapseExpiry = new Date(lapse.expiryDate);
+        if (!endDate || endDate >= lapseExpiry) {
+          endDate = lapseExpiry;
+          endEstimated = false;
+        }
       }
       
       // Calculate duration - for current owner, use elapsed time (now), not expiry date
@@ -205,12 +268,49 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
         owner,
         startDate,
         endDate,
+        startEstimated: owner.startDateEstimated,
+        endEstimated,
         isDormant: false,
         isMarketplace: owner.isMarketplace,
         marketplaceName: owner.marketplaceName,
         duration,
       });
       
+      if (lapse) {
+        const lapseStart = new Date(lapse.expiryDate);
+        const reregistered = new Date(lapse.reregisteredDate);
+        const reregisteredEstimated = registrationEvents.find(e => e.transactionHash === lapse.transactionHash)?.estimated;
+        periods.push({
+          owner: {
+            address: "0x0000000000000000000000000000000000000000",
+            startDate: lapseStart,
+            endDate: reregistered,
+            transactionHash: lapse.transactionHash,
+          },
+          startDate: lapseStart,
+          endDate: reregistered,
+          endEstimated: reregisteredEstimated,
+          isDormant: false,
+          lapse,
+          duration: reregistered.getTime() - lapseStart.getTime(),
+        });
+        
+        // Same owner re-registered it - they hold it again until the next owner
+        const continuedUntil = heldUntil ?? nextOwnerStart;
+        if (continuedUntil.getTime() - reregistered.getTime() > 24 * 60 * 60 * 1000) {
+          periods.push({
+            owner: { ...owner, startDate: reregistered, endDate: continuedUntil, transactionHash: lapse.transactionHash },
+            startDate: reregistered,
+            endDate: continuedUntil,
+            startEstimated: reregisteredEstimated,
+            endEstimated: heldUntil ? owner.endDateEstimated : finalOwners[i + 1]?.startDateEstimated,
+            isDormant: false,
+            duration: continuedUntil.getTime() - reregistered.getTime(),
+          });
+        }
+        continue;
+      }
+      
       // Check for burn events and dormant periods before next owner
       if (i < finalOwners.length - 1) {
         const nextOwner = finalOwners[i + 1];
@@ -240,6 +340,7 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
               },
               startDate: burnDate,
               endDate: burnDate,
+              startEstimated: burn.estimated,
               isDormant: false,
               isBurned: true,
               burnTransactionHash: burn.transactionHash,
@@ -262,6 +363,8 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
             },
             startDate: dormantStartDate,
             endDate: nextStartDate,
+            startEstimated: relevantBurns.length > 0 ? relevantBurns[relevantBurns.length - 1].estimated : endEstimated,
+            endEstimated: nextOwner.startDateEstimated,
             isDormant: true,
             duration: nextStartDate.getTime() - dormantStartDate.getTime(),
           });
@@ -269,11 +372,29 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
       }
     }
     
+    // Registrations and renewals are events on the same track as burns
+    for (const event of registrationEvents) {
+      const eventDate = new Date(event.date);
+      periods.push({
+        owner: {
+          address: event.payer || event.registrant || "0x0000000000000000000000000000000000000000",
+          startDate: eventDate,
+          endDate: eventDate,
+          transactionHash: event.transactionHash,
+        },
+        startDate: eventDate,
+        endDate: eventDate,
+        isDormant: false,
+        registrationEvent: event,
+        duration: 0,
+      });
+    }
+    
     // Sort periods by start date to ensure correct order
     periods.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
     
     return periods;
-  }, [owners, currentOwner, burnEvents]);
+  }, [owners, currentOwner, burnEvents, registrationEvents, lapses]);
 
   // Calculate total timeline span (from first registration to current date)
   const timelineSpan = useMemo(() => {
@@ -308,6 +429,11 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
     return (period.duration / timelineSpan.total) * 100;
   };
 
+  // Cards read well for a handful of owners; long histories open on the proportional view
+  const [timelineView, setTimelineView] = useState<"cards" | "gantt">(() =>
+    owners.length + (currentOwner ? 1 : 0) >= GANTT_OWNER_THRESHOLD ? "gantt" : "cards"
+  );
+
   const getPeriodOffset = (period: TimelinePeriod) => {
     if (timelineSpan.total === 0) return 0;
     const periodStart = period.startDate.getTime();
@@ -349,6 +475,53 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
     return duration;
   }, [timeline]);
 
+  // Records history, shared by the "Records history" section and the point-in-time lookup
+  // (ENSHistory is keyed by name, so this never outlives the name it was loaded for)
+  const [records, setRecords] = useState<ENSRecordsHistoryResponse | null>(null);
+  const [recordsLoading, setRecordsLoading] = useState(false);
+  const [recordsError, setRecordsError] = useState<string | null>(null);
+
+  const loadRecords = useCallback(async () => {
+    if (records || recordsLoading) return;
+    try {
+      setRecordsLoading(true);
+      setRecordsError(null);
+      const response = await fetch(`/api/ens/records?name=${encodeURIComponent(ensName)}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        setRecordsError(errorData.error || "Failed to fetch records history");
+        return;
+      }
+
+      setRecords(await response.json());
+    } catch (err) {
+      console.error("Error fetching records history:", err);
+      setRecordsError(err instanceof Error ? err.message : "Failed to fetch records history");
+    } finally {
+      setRecordsLoading(false);
+    }
+  }, [ensName, records, recordsLoading]);
+
+  // Point-in-time lookup: "who owned it and what did it resolve to on this day" (end of day, UTC)
+  // Answered from the same periods the timeline shows, so both always agree
+  const [pointInTimeDate, setPointInTimeDate] = useState("");
+  const pointInTime = useMemo(() => {
+    if (!pointInTimeDate) return null;
+    const at = new Date(`${pointInTimeDate}T23:59:59Z`);
+    if (isNaN(at.getTime())) return null;
+    const period = getPeriodAt(
+      timeline.filter(p => p.duration > 0),
+      at
+    );
+    return {
+      at,
+      period,
+      status: getStatusAt(at, timeline[0]?.startDate, registrationEvents, expiryDate),
+      records: records ? getRecordsAt(records.changes, at) : null,
+    };
+  }, [pointInTimeDate, timeline, registrationEvents, expiryDate, records]);
+
   // Get the earliest date (born on date)
   const bornOnDate = useMemo(() => {
     if (timeline.length === 0) return null;
@@ -442,10 +615,18 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
               )}
             </div>
           </a>
+          <Link
+            href={`/address/${currentOwner.address}`}
+            className="inline-flex items-center gap-2 mb-3 md:mb-4 text-xs md:text-sm text-blue-600 hover:text-blue-700 hover:underline relative"
+            style={{ zIndex: 2 }}
+          >
+            <Wallet size={14} />
+            View all names held by this address
+          </Link>
           <div className="space-y-2 md:space-y-3 relative" style={{ zIndex: 2 }}>
             <div className="flex items-center gap-2 text-xs md:text-sm" style={{ color: '#011A25', opacity: 0.8 }}>
               <Clock size={16} className="text-gray-400 flex-shrink-0" />
-              <span className="font-medium break-words">Owned since {formatDateFull(currentOwner.startDate)}</span>
+              <span className="font-medium break-words">Owned since {formatDateEstimated(currentOwner.startDate, currentOwner.startDateEstimated)}</span>
             </div>
             {ensLifespan !== null && (
               <div className="flex items-center gap-2 text-xs md:text-sm relative" style={{ color: '#011A25', opacity: 0.8, zIndex: 3 }}>
@@ -465,10 +646,19 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
                   const expiry = typeof expiryDate === "string" ? new Date(expiryDate) : expiryDate;
                   const now = new Date();
                   const isExpired = expiry <= now;
+                  const lifecycle = getLifecycle(expiry, now);
                   return (
                     <>
                       <span className="font-medium">{isExpired ? "Expired on: " : "Tentative Expiry: "}</span>
                       <span className="font-semibold break-words" style={{ color: isExpired ? '#DC2626' : '#011A25' }}>{formatDate(expiryDate)}</span>
+                      {lifecycle.status !== "active" && (
+                        <span className="text-xs" style={{ color: '#DC2626' }}>
+                          ({LIFECYCLE_LABELS[lifecycle.status]}
+                          {lifecycle.status === "grace" && ` until ${formatDate(lifecycle.graceEndDate)}`}
+                          {lifecycle.status === "premium" && lifecycle.premiumUsd !== undefined &&
+                            ` - premium $${Math.round(lifecycle.premiumUsd).toLocaleString("en-US")} until ${formatDate(lifecycle.premiumEndDate)}`})
+                        </span>
+                      )}
                     </>
                   );
                 })()}
@@ -478,19 +668,114 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
         </div>
       )}
 
+      {/* Summary stats */}
+      <DomainStats ensName={ensName} timeline={timeline} expiryDate={expiryDate} />
+
+      {/* Point-in-time lookup */}
+      {timeline.length > 0 && (
+        <div className="rounded-lg border border-gray-200 p-4 md:p-5">
+          <label className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm font-medium" style={{ color: '#011A25' }}>
+            <span className="flex items-center gap-2">
+              <CalendarSearch size={16} className="text-gray-400" />
+              Who owned it on
+            </span>
+            <input
+              type="date"
+              value={pointInTimeDate}
+              max={new Date().toISOString().slice(0, 10)}
+              onChange={(e) => {
+                setPointInTimeDate(e.target.value);
+                if (e.target.value) loadRecords();
+              }}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-mono"
+            />
+          </label>
+          {pointInTime && (
+            <div className="mt-3 space-y-1 text-xs md:text-sm" style={{ color: '#011A25', opacity: 0.85 }}>
+              <div>
+                <span className="font-medium">Owner: </span>
+                {!pointInTime.status ? (
+                  <span>Not registered yet</span>
+                ) : pointInTime.period?.lapse || pointInTime.status === "premium" || pointInTime.status === "available" ? (
+                  <span>Nobody - the name had expired ({LIFECYCLE_LABELS[pointInTime.status].toLowerCase()})</span>
+                ) : pointInTime.period?.isDormant ? (
+                  <span>Nobody - the name was dormant</span>
+                ) : pointInTime.period ? (
+                  <>
+                    <Link href={`/address/${pointInTime.period.owner.address}`} className="font-mono break-all hover:underline">
+                      {pointInTime.period.owner.ensName || pointInTime.period.owner.address}
+                    </Link>
+                    {pointInTime.status === "grace" && <span className="text-red-600"> (expired, in grace period)</span>}
+                  </>
+                ) : (
+                  <span>Unknown</span>
+                )}
+              </div>
+              <div>
+                <span className="font-medium">Resolved to: </span>
+                {recordsLoading ? (
+                  <span>Loading records...</span>
+                ) : recordsError ? (
+                  <span className="text-red-600">{recordsError}</span>
+                ) : pointInTime.records?.address ? (
+                  <span className="font-mono break-all">{pointInTime.records.address}</span>
+                ) : (
+                  <span>No ETH address set</span>
+                )}
+              </div>
+              {pointInTime.records?.resolver && (
+                <div>
+                  <span className="font-medium">Resolver: </span>
+                  <span className="font-mono break-all">{pointInTime.records.resolver}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Timeline Visualization */}
       {timeline.length > 0 && (
         <div>
-          <div className="mb-6 md:mb-8">
-            <h3 className="text-xl md:text-2xl font-bold mb-2" style={{ color: '#011A25' }}>
-              Ownership Timeline
-            </h3>
-            <p className="text-xs md:text-sm" style={{ color: '#011A25', opacity: 0.7 }}>
-              Chronological history of domain ownership
-            </p>
+          <div className="mb-6 md:mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+            <div>
+              <h3 className="text-xl md:text-2xl font-bold mb-2" style={{ color: '#011A25' }}>
+                Ownership Timeline
+              </h3>
+              <p className="text-xs md:text-sm" style={{ color: '#011A25', opacity: 0.7 }}>
+                Chronological history of domain ownership
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex gap-1">
+                {(["cards", "gantt"] as const).map((view) => (
+                  <button
+                    key={view}
+                    type="button"
+                    onClick={() => setTimelineView(view)}
+                    className={`px-3 py-1.5 rounded-full text-xs md:text-sm font-semibold transition-colors ${timelineView === view ? "bg-blue-100 text-blue-800" : "text-gray-500 hover:bg-gray-100"}`}
+                  >
+                    {view === "cards" ? "Cards" : "Timeline"}
+                  </button>
+                ))}
+              </div>
+              <TimelineExport ensName={ensName} timeline={timeline} expiryDate={expiryDate} rawResponse={rawResponse} />
+            </div>
           </div>
-          
-          {/* Vertical Timeline */}
+
+          {timelineView === "gantt" ? (
+            <GanttTimeline
+              timeline={timeline}
+              span={timelineSpan}
+              getPeriodOffset={getPeriodOffset}
+              getPeriodWidth={getPeriodWidth}
+              getOwnerColor={getOwnerColor}
+              formatDate={formatDateEstimated}
+              formatDuration={formatDuration}
+              formatAddress={formatAddress}
+            />
+          ) : (
+          /* Vertical Timeline */
           <div className="relative">
             {/* Vertical line connecting the markers in the center */}
             {/* Height calculation: Very generous to ensure it reaches all cards on both mobile and desktop
@@ -522,7 +807,9 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
                 // Current owner is the first item in reversed timeline (most recent)
                 // Check if domain is expired - if expiry date exists and has passed, it's not current
                 const expiry = expiryDate ? (typeof expiryDate === "string" ? new Date(expiryDate) : expiryDate) : null;
-                const isExpired = expiry && expiry <= now;
+                // The owner keeps the name through the grace period
+                const lifecycleStatus = expiry ? getLifecycleStatus(expiry, now) : "active";
+                const isExpired = lifecycleStatus === "premium" || lifecycleStatus === "available";
                 const isCurrent = currentOwner && 
                   period.owner.address.toLowerCase() === currentOwner.address.toLowerCase() &&
                   !isExpired &&
@@ -539,6 +826,141 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
                   colorClass = gradient.replace('from-', 'bg-').split(' ')[0];
                 }
                 
+                // Render registration / renewal event (no duration, just event marker)
+                if (period.registrationEvent) {
+                  const event = period.registrationEvent;
+                  const isRegistration = event.type === "registration";
+                  return (
+                    <div key={`registration-${index}`} className="relative flex items-start gap-3 md:gap-6">
+                      {/* Timeline dot with year label above */}
+                      <div className="relative z-10 flex-shrink-0 flex flex-col items-center">
+                        {/* Year label above the dot */}
+                        <div className="text-xl md:text-2xl font-bold mb-2" style={{ color: '#0080BC' }}>
+                          {period.startDate.getFullYear()}
+                        </div>
+                        <div className="w-4 h-4 rounded-full bg-blue-400 border-2 border-white shadow-lg"></div>
+                      </div>
+                      
+                      {/* Content card */}
+                      <div className="flex-1 bg-blue-50 rounded-lg p-4 md:p-5 border-2 border-blue-200">
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-2">
+                          <div className="flex items-center gap-2">
+                            <RefreshCw className="text-blue-500" size={16} />
+                            <h4 className="font-semibold text-sm md:text-base" style={{ color: '#011A25' }}>
+                              {isRegistration ? "Registered" : "Renewed"}
+                            </h4>
+                          </div>
+                          <div className="flex gap-2 flex-shrink-0">
+                            <span className="px-2 py-1 text-xs font-semibold bg-blue-100 text-blue-800 rounded-full shadow-sm">
+                              {isRegistration ? "Registration" : "Renewal"}
+                            </span>
+                            {event.transactionHash && (
+                              <a
+                                href={`https://etherscan.io/tx/${event.transactionHash}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-gray-400 hover:text-gray-600 transition-colors"
+                              >
+                                <ExternalLink size={16} />
+                              </a>
+                            )}
+                          </div>
+                        </div>
+                        <div className="text-xs md:text-sm space-y-1" style={{ color: '#011A25', opacity: 0.8 }}>
+                          <div className="flex items-center gap-2">
+                            <Clock size={14} />
+                            <span>
+                              <span className="font-medium">Date: </span>
+                              {formatDateEstimated(period.startDate, event.estimated)}
+                            </span>
+                          </div>
+                          {event.payer && (
+                            <div className="break-all">
+                              <span className="font-medium">Paid by: </span>
+                              <Link href={`/address/${event.payer}`} className="font-mono hover:underline">
+                                {event.payer}
+                              </Link>
+                            </div>
+                          )}
+                          <div>
+                            <span className="font-medium">Expiry: </span>
+                            {formatDate(event.expiryDate)}
+                            {event.durationAdded !== undefined && event.durationAdded > 0 && (
+                              <span> (+{formatDuration(event.durationAdded)})</span>
+                            )}
+                          </div>
+                          {event.baseCost && (
+                            <div>
+                              <span className="font-medium">Cost: </span>
+                              <span className="font-mono">{event.baseCost} ETH</span>
+                              {event.premium && parseFloat(event.premium) > 0 && (
+                                <span className="font-mono"> + {event.premium} ETH premium</span>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                }
+                
+                // Render lapse: expiry -> grace -> premium auction -> re-registration
+                if (period.lapse) {
+                  const lapse = period.lapse;
+                  const reregistered = new Date(lapse.reregisteredDate);
+                  const phases = [
+                    { label: "Expired", date: lapse.expiryDate },
+                    { label: "Grace period ended", date: lapse.graceEndDate },
+                    { label: "Premium auction ended", date: lapse.premiumEndDate },
+                  ].filter(phase => new Date(phase.date) < reregistered);
+                  return (
+                    <div key={`lapse-${index}`} className="relative flex items-start gap-3 md:gap-6">
+                      {/* Timeline dot with year label above */}
+                      <div className="relative z-10 flex-shrink-0 flex flex-col items-center">
+                        {/* Year label above the dot */}
+                        <div className="text-xl md:text-2xl font-bold mb-2" style={{ color: '#D97706' }}>
+                          {period.startDate.getFullYear()}
+                        </div>
+                        <div className="w-4 h-4 rounded-full bg-amber-300 border-2 border-dashed border-amber-500"></div>
+                      </div>
+                      
+                      {/* Content card */}
+                      <div className="flex-1 bg-amber-50 rounded-lg p-4 md:p-5 border-2 border-dashed border-amber-300">
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-2">
+                          <div className="flex items-center gap-2">
+                            <Circle className="text-amber-500" size={16} />
+                            <h4 className="font-semibold text-sm md:text-base" style={{ color: '#011A25' }}>
+                              Lapsed and re-registered
+                            </h4>
+                          </div>
+                          <span className="px-2 py-1 text-xs font-semibold bg-amber-100 text-amber-800 rounded-full shadow-sm">
+                            Lapsed
+                          </span>
+                        </div>
+                        <div className="text-xs md:text-sm space-y-1" style={{ color: '#011A25', opacity: 0.8 }}>
+                          {phases.map(phase => (
+                            <div key={phase.label} className="flex items-center gap-2">
+                              <Clock size={14} />
+                              <span><span className="font-medium">{phase.label}: </span>{formatDate(phase.date)}</span>
+                            </div>
+                          ))}
+                          <div className="flex items-center gap-2">
+                            <Clock size={14} />
+                            <span>
+                              <span className="font-medium">Re-registered: </span>{formatDate(reregistered)}
+                              {lapse.premium && parseFloat(lapse.premium) > 0 && ` (premium paid: ${lapse.premium} ETH)`}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">Lapsed for: </span>
+                            {formatDuration(period.duration)}
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                }
+                
                 // Render burn event (no duration, just event marker)
                 if (period.isBurned) {
                   return (
@@ -580,7 +1002,7 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
                         <div className="text-xs md:text-sm" style={{ color: '#011A25', opacity: 0.8 }}>
                           <div className="flex items-center gap-2">
                             <Clock size={14} />
-                            <span><span className="font-medium">Date: </span>{formatDateFull(period.startDate)}</span>
+                            <span><span className="font-medium">Date: </span>{formatDateEstimated(period.startDate, period.startEstimated)}</span>
                           </div>
                         </div>
                       </div>
@@ -611,11 +1033,11 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
                         <div className="text-xs md:text-sm space-y-1" style={{ color: '#011A25', opacity: 0.8 }}>
                           <div className="flex items-center gap-2">
                             <Clock size={14} />
-                            <span><span className="font-medium">From: </span>{formatDateFull(period.startDate)}</span>
+                            <span><span className="font-medium">From: </span>{formatDateEstimated(period.startDate, period.startEstimated)}</span>
                           </div>
                           <div className="flex items-center gap-2">
                             <Clock size={14} />
-                            <span><span className="font-medium">To: </span>{formatDateFull(period.endDate!)}</span>
+                            <span><span className="font-medium">To: </span>{formatDateEstimated(period.endDate!, period.endEstimated)}</span>
                           </div>
                             <div className="flex items-center gap-2">
                               <span className="font-medium">Dormant for: </span>
@@ -654,14 +1076,51 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
                               {index + 1}
                             </div>
                             <div className="min-w-0 flex-1">
-                              <div className="font-mono text-base md:text-lg font-semibold break-words" style={{ color: '#011A25' }}>
-                                {isMarketplace 
+                              <div className="flex items-center gap-2 font-mono text-base md:text-lg font-semibold break-words" style={{ color: '#011A25' }}>
+                                {!isMarketplace && period.owner.avatar && (
+                                  <img
+                                    src={period.owner.avatar}
+                                    alt=""
+                                    className="w-6 h-6 rounded-full object-cover flex-shrink-0"
+                                    onError={(e) => {
+                                      // Hide broken avatars rather than showing the browser's placeholder
+                                      (e.target as HTMLImageElement).style.display = 'none';
+                                    }}
+                                  />
+                                )}
+                                {isMarketplace
                                   ? (period.marketplaceName || 'Marketplace Contract')
                                   : (period.owner.ensName || formatAddress(period.owner.address))}
                               </div>
-                              <div className="text-xs md:text-sm font-mono break-all mt-1" style={{ color: '#011A25', opacity: 0.7 }}>
+                              {/* Pivot to every name this owner has held */}
+                              <Link
+                                href={`/address/${period.owner.address}`}
+                                className="block text-xs md:text-sm font-mono break-all mt-1 hover:underline"
+                                style={{ color: '#011A25', opacity: 0.7 }}
+                                title="View all names held by this address"
+                              >
                                 {period.owner.address}
-                              </div>
+                              </Link>
+                              {!isMarketplace && (period.owner.followersCount !== undefined || period.owner.followingCount !== undefined) && (
+                                <a
+                                  href={`https://efp.app/${period.owner.address}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="flex items-center gap-3 text-xs mt-1 hover:underline"
+                                  style={{ color: '#011A25', opacity: 0.6 }}
+                                >
+                                  <span>{period.owner.followingCount ?? 0} following</span>
+                                  <span>{period.owner.followersCount ?? 0} followers</span>
+                                </a>
+                              )}
+                              {/* Current holders of roles that aren't held by the effective owner */}
+                              {isCurrent && roles && (Object.keys(ROLE_LABELS) as ENSOwnerRole[])
+                                .filter((role) => roles[role] && roles[role]!.toLowerCase() !== period.owner.address.toLowerCase())
+                                .map((role) => (
+                                  <div key={role} className="text-xs font-mono break-all mt-1" style={{ color: '#011A25', opacity: 0.6 }}>
+                                    {ROLE_LABELS[role]}: {roles[role]}
+                                  </div>
+                                ))}
                             </div>
                             <div className="flex gap-2 flex-shrink-0">
                               {isMarketplace && (
@@ -669,6 +1128,11 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
                                   {period.marketplaceName || 'Marketplace'}
                                 </span>
                               )}
+                              {period.owner.changedRoles?.map((role) => (
+                                <span key={role} className="px-2 py-1 text-xs font-semibold bg-blue-100 text-blue-800 rounded-full shadow-sm">
+                                  {ROLE_LABELS[role]}
+                                </span>
+                              ))}
                               {isCurrent && (
                                 <span className="px-2 py-1 text-xs font-semibold bg-emerald-100 text-emerald-800 rounded-full shadow-sm">
                                   Current
@@ -682,7 +1146,7 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
                               <Clock size={16} className="text-gray-400 flex-shrink-0" />
                               <div>
                                 <span className="font-medium">From: </span>
-                                <span className="font-mono">{formatDateFull(period.startDate)}</span>
+                                <span className="font-mono">{formatDateEstimated(period.startDate, period.startEstimated)}</span>
                               </div>
                             </div>
                             {period.endDate ? (
@@ -690,14 +1154,14 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
                                 <Clock size={16} className="text-gray-400 flex-shrink-0" />
                                 <div>
                                   <span className="font-medium">To: </span>
-                                  <span className="font-mono">{formatDateFull(period.endDate)}</span>
+                                  <span className="font-mono">{formatDateEstimated(period.endDate, period.endEstimated)}</span>
                                   {/* Show status label for current owner */}
                                   {isCurrent && (
                                     <>
-                                      {period.endDate > now ? (
+                                      {lifecycleStatus === "active" ? (
                                         <span className="text-xs text-emerald-600 ml-2">(Expires)</span>
                                       ) : (
-                                        <span className="text-xs text-red-600 ml-2">(Expired)</span>
+                                        <span className="text-xs text-red-600 ml-2">(Expired - {LIFECYCLE_LABELS[lifecycleStatus].toLowerCase()})</span>
                                       )}
                                     </>
                                   )}
@@ -736,6 +1200,20 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
                               <span className="font-medium">Owned for: </span>
                               <span className="font-semibold break-words" style={{ color: '#011A25' }}>{formatDuration(period.duration)}</span>
                             </div>
+                            {period.owner.sale && (
+                              <div className="flex items-center gap-2 flex-wrap" style={{ color: '#011A25', opacity: 0.8 }}>
+                                <span className="font-medium">Bought for: </span>
+                                <span className="font-semibold font-mono" style={{ color: '#011A25' }}>
+                                  {period.owner.sale.price} {period.owner.sale.currency}
+                                </span>
+                                {period.owner.sale.priceUsd !== undefined && (
+                                  <span className="text-xs">
+                                    (≈ ${period.owner.sale.priceUsd.toLocaleString("en-US")})
+                                  </span>
+                                )}
+                                <span className="text-xs">on {period.owner.sale.marketplace}</span>
+                              </div>
+                            )}
                           </div>
                         </div>
                         
@@ -759,6 +1237,7 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
             </div>
             
           </div>
+          )}
         </div>
       )}
 
@@ -783,6 +1262,12 @@ export default function ENSHistory({ ensName, owners, currentOwner, expiryDate,
           </div>
         </div>
       )}
+
+      {/* Resolver and records history */}
+      <RecordsHistory records={records} loading={recordsLoading} error={recordsError} onOpen={loadRecords} />
+
+      {/* Subdomain browser */}
+      <SubdomainTree ensName={ensName} />
     </div>
   );
 }
@@ -0,0 +1,290 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { TimelinePeriod } from "./ENSHistory";
+
+type Zoom = "year" | "month" | "day";
+
+interface GanttTimelineProps {
+  timeline: TimelinePeriod[]; // Oldest first
+  span: { start: Date; end: Date; total: number };
+  // Positions along the span, in percent - shared with ENSHistory so both views agree
+  getPeriodOffset: (period: TimelinePeriod) => number;
+  getPeriodWidth: (period: TimelinePeriod) => number;
+  getOwnerColor: (address: string, index: number) => string;
+  formatDate: (date: Date | string | undefined, estimated?: boolean) => string;
+  formatDuration: (ms: number) => string;
+  formatAddress: (address: string) => string;
+}
+
+interface Tooltip {
+  x: number;
+  y: number;
+  title: string;
+  lines: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Scale at each zoom level
+const PX_PER_DAY: Record<Zoom, number> = { year: 0.4, month: 3, day: 32 };
+
+const ZOOM_LABELS: Record<Zoom, string> = { year: "Year", month: "Month", day: "Day" };
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// Axis ticks at the start of each year, month or day within the span
+const getTicks = (start: Date, end: Date, zoom: Zoom) => {
+  const ticks: Array<{ date: Date; label: string; major: boolean }> = [];
+  const date = new Date(start.getFullYear(), zoom === "year" ? 0 : start.getMonth(), zoom === "day" ? start.getDate() : 1);
+  while (date <= end) {
+    if (date >= start) {
+      const month = date.getMonth();
+      const day = date.getDate();
+      if (zoom === "year") ticks.push({ date: new Date(date), label: String(date.getFullYear()), major: true });
+      else if (zoom === "month")
+        ticks.push({ date: new Date(date), label: month === 0 ? `${MONTHS[0]} ${date.getFullYear()}` : MONTHS[month], major: month === 0 });
+      else ticks.push({ date: new Date(date), label: day === 1 ? `${MONTHS[month]} ${date.getFullYear()}` : String(day), major: day === 1 });
+    }
+    if (zoom === "year") date.setFullYear(date.getFullYear() + 1);
+    else if (zoom === "month") date.setMonth(date.getMonth() + 1);
+    else date.setDate(date.getDate() + 1);
+  }
+  return ticks;
+};
+
+const LANE_HEIGHT = "h-8";
+
+// Proportional view of a timeline: one lane per owner, a lane of events (registrations, renewals,
+// burns) and a lane of the time nobody held the name. Scrolls horizontally; drag to pan
+export default function GanttTimeline({
+  timeline,
+  span,
+  getPeriodOffset,
+  getPeriodWidth,
+  getOwnerColor,
+  formatDate,
+  formatDuration,
+  formatAddress,
+}: GanttTimelineProps) {
+  const [zoom, setZoom] = useState<Zoom>("year");
+  const [tooltip, setTooltip] = useState<Tooltip | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ x: number; scrollLeft: number } | null>(null);
+  // Share of the track at the center of the view, kept across zoom changes
+  const center = useRef<number | null>(null);
+
+  // Owners in order of first appearance, each with every period they held the name
+  const lanes = useMemo(() => {
+    const byOwner = new Map<string, TimelinePeriod[]>();
+    timeline.forEach((period) => {
+      if (period.isDormant || period.isBurned || period.registrationEvent || period.lapse) return;
+      const key = period.owner.address.toLowerCase();
+      byOwner.set(key, [...(byOwner.get(key) ?? []), period]);
+    });
+    return [...byOwner.values()];
+  }, [timeline]);
+  const events = timeline.filter((period) => period.isBurned || period.registrationEvent);
+  const gaps = timeline.filter((period) => period.isDormant || period.lapse);
+
+  // Open on the most recent end; after a zoom, keep the same date in the middle
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    element.scrollLeft =
+      center.current === null ? element.scrollWidth : center.current * element.scrollWidth - element.clientWidth / 2;
+    center.current = null;
+  }, [zoom]);
+
+  const changeZoom = (next: Zoom) => {
+    const element = scrollRef.current;
+    if (element) center.current = (element.scrollLeft + element.clientWidth / 2) / element.scrollWidth;
+    setZoom(next);
+  };
+
+  const ticks = useMemo(() => getTicks(span.start, span.end, zoom), [span, zoom]);
+  const trackWidth = Math.ceil((span.total / DAY_MS) * PX_PER_DAY[zoom]);
+  const toPercent = (date: Date) => (span.total === 0 ? 0 : ((date.getTime() - span.start.getTime()) / span.total) * 100);
+
+  const describe = (period: TimelinePeriod): Omit<Tooltip, "x" | "y"> => {
+    const end = period.endDate ? formatDate(period.endDate, period.endEstimated) : "present";
+    const range = `${formatDate(period.startDate, period.startEstimated)} → ${end}`;
+    if (period.registrationEvent) {
+      const event = period.registrationEvent;
+      return {
+        title: event.type === "registration" ? "Registered" : "Renewed",
+        lines: [formatDate(period.startDate, period.startEstimated), `Expires ${formatDate(event.expiryDate)}`],
+      };
+    }
+    if (period.isBurned) return { title: "Burned", lines: [formatDate(period.startDate, period.startEstimated)] };
+    if (period.lapse) return { title: "Expired", lines: [range, formatDuration(period.duration)] };
+    if (period.isDormant) return { title: "Dormant", lines: [range, formatDuration(period.duration)] };
+
+    const lines = [range, formatDuration(period.duration)];
+    if (period.owner.sale) lines.push(`Bought for ${period.owner.sale.price} ${period.owner.sale.currency} on ${period.owner.sale.marketplace}`);
+    else if (period.isMarketplace && period.marketplaceName) lines.push(`Via ${period.marketplaceName}`);
+    return { title: period.owner.ensName || period.owner.address, lines };
+  };
+
+  const hoverProps = (period: TimelinePeriod) => ({
+    onMouseMove: (e: React.MouseEvent) => {
+      if (!drag.current) setTooltip({ x: e.clientX, y: e.clientY, ...describe(period) });
+    },
+    onMouseLeave: () => setTooltip(null),
+  });
+
+  const eventColor = (period: TimelinePeriod) => {
+    if (period.isBurned) return "bg-red-500";
+    return period.registrationEvent?.type === "registration" ? "bg-emerald-500" : "bg-blue-500";
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between gap-3 p-3 border-b border-gray-200">
+        <div className="flex gap-1">
+          {(Object.keys(ZOOM_LABELS) as Zoom[]).map((level) => (
+            <button
+              key={level}
+              type="button"
+              onClick={() => changeZoom(level)}
+              className={`px-3 py-1 rounded-full text-xs md:text-sm font-semibold transition-colors ${zoom === level ? "bg-blue-100 text-blue-800" : "text-gray-500 hover:bg-gray-100"}`}
+            >
+              {ZOOM_LABELS[level]}
+            </button>
+          ))}
+        </div>
+        <div className="hidden sm:flex items-center gap-3 text-xs" style={{ color: '#011A25', opacity: 0.7 }}>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rotate-45 bg-emerald-500"></span>Registration</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rotate-45 bg-blue-500"></span>Renewal</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rotate-45 bg-red-500"></span>Burn</span>
+        </div>
+      </div>
+
+      <div className="flex">
+        {/* Lane labels */}
+        <div className="w-28 md:w-44 flex-shrink-0 border-r border-gray-200 text-xs" style={{ color: '#011A25' }}>
+          <div className="h-6 border-b border-gray-100"></div>
+          <div className={`${LANE_HEIGHT} flex items-center px-2 font-medium opacity-70`}>Events</div>
+          {lanes.map((periods) => {
+            const owner = periods[0].owner;
+            return (
+              <div key={owner.address} className={`${LANE_HEIGHT} flex items-center px-2 truncate`}>
+                <Link href={`/address/${owner.address}`} className="font-mono truncate hover:underline" title={owner.address}>
+                  {owner.ensName || formatAddress(owner.address)}
+                </Link>
+              </div>
+            );
+          })}
+          {gaps.length > 0 && <div className={`${LANE_HEIGHT} flex items-center px-2 font-medium opacity-70`}>Unowned</div>}
+        </div>
+
+        {/* Track */}
+        <div
+          ref={scrollRef}
+          className="flex-1 overflow-x-auto cursor-grab active:cursor-grabbing select-none"
+          onPointerDown={(e) => {
+            if (e.pointerType !== "mouse" || !scrollRef.current) return;
+            drag.current = { x: e.clientX, scrollLeft: scrollRef.current.scrollLeft };
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setTooltip(null);
+          }}
+          onPointerMove={(e) => {
+            if (drag.current && scrollRef.current) {
+              scrollRef.current.scrollLeft = drag.current.scrollLeft - (e.clientX - drag.current.x);
+            }
+          }}
+          onPointerUp={() => {
+            drag.current = null;
+          }}
+          onPointerCancel={() => {
+            drag.current = null;
+          }}
+        >
+          <div className="relative" style={{ width: `max(100%, ${trackWidth}px)` }}>
+            {/* Axis */}
+            <div className="relative h-6 border-b border-gray-100">
+              {ticks.map((tick) => (
+                <div
+                  key={tick.date.getTime()}
+                  className={`absolute top-0 h-full border-l pl-1 text-[10px] leading-6 whitespace-nowrap ${tick.major ? "border-gray-300 font-semibold" : "border-gray-100"}`}
+                  style={{ left: `${toPercent(tick.date)}%`, color: '#011A25', opacity: tick.major ? 0.8 : 0.5 }}
+                >
+                  {tick.label}
+                </div>
+              ))}
+            </div>
+
+            {/* Gridlines and event lines across every lane */}
+            <div className="absolute left-0 right-0 top-6 bottom-0 pointer-events-none">
+              {ticks.filter((tick) => tick.major).map((tick) => (
+                <div key={tick.date.getTime()} className="absolute top-0 bottom-0 border-l border-gray-100" style={{ left: `${toPercent(tick.date)}%` }}></div>
+              ))}
+              {events.map((period, i) => (
+                <div
+                  key={i}
+                  className={`absolute top-0 bottom-0 w-px opacity-30 ${eventColor(period)}`}
+                  style={{ left: `${getPeriodOffset(period)}%` }}
+                ></div>
+              ))}
+            </div>
+
+            {/* Events */}
+            <div className={`relative ${LANE_HEIGHT}`}>
+              {events.map((period, i) => (
+                <div
+                  key={i}
+                  className={`absolute top-1/2 w-3 h-3 -ml-1.5 -mt-1.5 rotate-45 ${eventColor(period)}`}
+                  style={{ left: `${getPeriodOffset(period)}%` }}
+                  {...hoverProps(period)}
+                ></div>
+              ))}
+            </div>
+
+            {/* One lane per owner */}
+            {lanes.map((periods, laneIndex) => (
+              <div key={periods[0].owner.address} className={`relative ${LANE_HEIGHT}`}>
+                {periods.map((period, i) => (
+                  <div
+                    key={i}
+                    className={`absolute top-1.5 bottom-1.5 rounded bg-gradient-to-r ${
+                      period.endDate === null ? "from-emerald-500 to-emerald-600" : getOwnerColor(period.owner.address, laneIndex)
+                    } ${period.owner.sale ? "ring-2 ring-yellow-400" : ""}`}
+                    style={{ left: `${getPeriodOffset(period)}%`, width: `${getPeriodWidth(period)}%`, minWidth: 2 }}
+                    {...hoverProps(period)}
+                  ></div>
+                ))}
+              </div>
+            ))}
+
+            {/* Expired and dormant stretches */}
+            {gaps.length > 0 && (
+              <div className={`relative ${LANE_HEIGHT}`}>
+                {gaps.map((period, i) => (
+                  <div
+                    key={i}
+                    className={`absolute top-1.5 bottom-1.5 rounded ${period.lapse ? "bg-red-200" : "bg-gray-200"}`}
+                    style={{ left: `${getPeriodOffset(period)}%`, width: `${getPeriodWidth(period)}%`, minWidth: 2 }}
+                    {...hoverProps(period)}
+                  ></div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {tooltip && (
+        <div
+          className="fixed z-50 max-w-xs px-3 py-2 rounded-lg shadow-lg bg-white border border-gray-200 text-xs pointer-events-none"
+          style={{ left: tooltip.x + 12, top: tooltip.y + 12, color: '#011A25' }}
+        >
+          <div className="font-semibold font-mono break-all mb-1">{tooltip.title}</div>
+          {tooltip.lines.map((line, i) => (
+            <div key={i} style={{ opacity: 0.8 }}>{line}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { HelpCircle } from "lucide-react";
+import { useState } from "react";
+import { isEncodedLabel } from "@/lib/ens-history/names";
+
+interface LabelGuessProps {
+  name: string; // Contains at least one "[labelhash]" label
+  onResolved: (name: string) => void; // Called with the name with the guessed label filled in
+}
+
+// Lets users fill in a label the subgraph only knows by hash; the server checks the guess by keccak
+export default function LabelGuess({ name, onResolved }: LabelGuessProps) {
+  const [guess, setGuess] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const labels = name.split(".");
+  const index = labels.findIndex(isEncodedLabel);
+  if (index === -1) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!guess.trim()) return;
+
+    try {
+      setChecking(true);
+      setError(null);
+      const response = await fetch("/api/ens/labels", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ labelhash: labels[index], label: guess }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "That guess doesn't match");
+        return;
+      }
+
+      onResolved(labels.map((label, i) => (i === index ? data.label : label)).join("."));
+    } catch (err) {
+      console.error("Error checking label guess:", err);
+      setError(err instanceof Error ? err.message : "Failed to check guess");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 p-3 rounded-lg bg-gray-50 border border-gray-200">
+      <div className="flex items-start gap-2 text-xs md:text-sm mb-2" style={{ color: '#011A25', opacity: 0.8 }}>
+        <HelpCircle size={16} className="flex-shrink-0 mt-0.5" />
+        <span>
+          The label <span className="font-mono break-all">{labels[index]}</span> has never been seen in plain text. Know what it is?
+        </span>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={guess}
+          onChange={(e) => setGuess(e.target.value)}
+          placeholder="Guess the label"
+          className="flex-1 min-w-0 px-3 py-2 text-sm rounded-lg border border-gray-200 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={checking}
+        />
+        <button
+          type="submit"
+          disabled={checking || !guess.trim()}
+          className="px-4 py-2 text-sm font-semibold rounded-lg text-white disabled:opacity-50"
+          style={{ backgroundColor: '#011A25' }}
+        >
+          {checking ? "Checking..." : "Check"}
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -1,65 +1,185 @@
 "use client";
 
 import { Trophy, TrendingUp, ChevronDown, ChevronUp } from "lucide-react";
-import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { beautifyENSName } from "@/lib/ens-history/names";
+import type {
+  AddressLeaderboardCategory,
+  AddressLeaderboardEntry,
+  LeaderboardCategory,
+  LeaderboardEntry,
+  LeaderboardUnit,
+  LeaderboardWindow,
+  NameClub,
+} from "@/lib/ens-history/rankings";
 
-interface LeaderboardEntry {
-  name: string;
-  transferCount: number;
-}
+const PAGE_SIZE = 10;
+
+const CATEGORIES: Array<{ value: LeaderboardCategory; label: string; description: string }> = [
+  { value: "changes", label: "Most transferred", description: "Names ranked by number of ownership transitions" },
+  { value: "sales", label: "Most sold", description: "Names ranked by number of marketplace sales" },
+  { value: "price", label: "Highest sale", description: "Names ranked by their highest marketplace sale, in ETH" },
+  { value: "holding", label: "Longest held", description: "Names ranked by their longest continuous holding, ongoing ones included" },
+  { value: "reregistrations", label: "Most re-registered", description: "Names ranked by registrations after expiring and being released" },
+  { value: "flips", label: "Fastest flips", description: "Names bought and sold again on a marketplace, ranked by how soon they were resold" },
+];
+
+const ADDRESS_CATEGORIES: Array<{ value: AddressLeaderboardCategory; label: string; description: string }> = [
+  { value: "acquisitions", label: "Most acquisitions", description: "Addresses ranked by names acquired - registrations, transfers and purchases" },
+  { value: "flips", label: "Top flippers", description: "Addresses ranked by names bought and sold again on a marketplace within 30 days" },
+  { value: "held", label: "Most names held", description: "Addresses ranked by names they currently hold" },
+  { value: "holding", label: "Longest holders", description: "Addresses ranked by average holding period, over at least 3 names" },
+];
+
+const WINDOWS: Array<{ value: LeaderboardWindow; label: string }> = [
+  { value: "24h", label: "24h" },
+  { value: "7d", label: "7d" },
+  { value: "30d", label: "30d" },
+  { value: "all", label: "All time" },
+];
 
-interface LeaderboardData {
-  leaderboard: LeaderboardEntry[];
+const CLUBS: Array<{ value: NameClub; label: string }> = [
+  { value: "3-letter", label: "3-letter" },
+  { value: "999", label: "999 Club" },
+  { value: "10k", label: "10k Club" },
+  { value: "emoji", label: "Emoji" },
+];
+
+type Board = "names" | "addresses";
+
+interface LeaderboardData<Entry> {
+  unit: LeaderboardUnit;
+  leaderboard: Entry[];
   totalTransfersAnalyzed: number;
+  complete: boolean; // false while the index is still catching up with the full history
 }
 
+type BoardData =
+  | ({ board: "names" } & LeaderboardData<LeaderboardEntry>)
+  | ({ board: "addresses" } & LeaderboardData<AddressLeaderboardEntry>);
+
 interface LeaderboardProps {
   onDomainClick: (name: string) => void;
 }
 
+const formatDuration = (ms: number) => {
+  const days = ms / (24 * 60 * 60 * 1000);
+  if (days >= 365) return `${(days / 365).toFixed(1)} years`;
+  if (days >= 1) return `${Math.round(days)} day${Math.round(days) !== 1 ? "s" : ""}`;
+  const hours = Math.round(ms / (60 * 60 * 1000));
+  if (hours >= 1) return `${hours} hour${hours !== 1 ? "s" : ""}`;
+  return `${Math.max(Math.round(ms / 60000), 1)} min`;
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// What an entry's value means on each board
+const formatValue = (category: LeaderboardCategory, unit: LeaderboardUnit, entry: LeaderboardEntry) => {
+  if (unit === "eth") return `${entry.value.toLocaleString(undefined, { maximumFractionDigits: 4 })} ETH`;
+  if (unit === "duration") {
+    const holder = entry.address ? ` by ${formatAddress(entry.address)}` : "";
+    return category === "flips" ? `Resold after ${formatDuration(entry.value)}${holder}` : `Held for ${formatDuration(entry.value)}${holder}`;
+  }
+  const noun = {
+    changes: "ownership transition",
+    sales: "sale",
+    reregistrations: "re-registration",
+  }[category as "changes" | "sales" | "reregistrations"];
+  return `${entry.value} ${noun}${entry.value !== 1 ? "s" : ""}`;
+};
+
+const formatAddressValue = (category: AddressLeaderboardCategory, entry: AddressLeaderboardEntry) => {
+  if (category === "holding") return `${formatDuration(entry.value)} on average over ${entry.holdings} names`;
+  const noun = {
+    acquisitions: "acquisition",
+    flips: "flip",
+    held: "name",
+  }[category];
+  return `${entry.value.toLocaleString()} ${noun}${entry.value !== 1 ? "s" : ""}${category === "held" ? " held" : ""}`;
+};
+
 export default function Leaderboard({ onDomainClick }: LeaderboardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
-  const [data, setData] = useState<LeaderboardData | null>(null);
+  const [board, setBoard] = useState<Board>("names");
+  const [category, setCategory] = useState<LeaderboardCategory>("changes");
+  const [addressCategory, setAddressCategory] = useState<AddressLeaderboardCategory>("acquisitions");
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("all");
+  const [club, setClub] = useState<NameClub | null>(null);
+  const [data, setData] = useState<BoardData | null>(null);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [hasFetched, setHasFetched] = useState(false);
 
+  // Bumped whenever the board or a filter changes, so pages requested for the previous one are dropped
+  const boardVersion = useRef(0);
+
+  const fetchPage = useCallback(async (offset: number): Promise<BoardData | null> => {
+    const params = new URLSearchParams({
+      category: board === "names" ? category : addressCategory,
+      window: timeWindow,
+      limit: String(PAGE_SIZE),
+      offset: String(offset),
+    });
+    if (club) params.set("club", club);
+    const response = await fetch(board === "names" ? `/api/leaderboard?${params}` : `/api/leaderboard/addresses?${params}`);
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      if (response.status === 429) {
+        setError(errorData.error || "Rate limit exceeded. Please wait a moment and try again.");
+      } else {
+        setError(errorData.error || "Failed to fetch leaderboard");
+      }
+      return null;
+    }
+    return { board, ...(await response.json()) };
+  }, [board, category, addressCategory, timeWindow, club]);
+
+  // (Re)load the first page whenever the board changes while expanded
   useEffect(() => {
-    // Only fetch when expanded and we haven't fetched yet
-    if (isExpanded && !hasFetched) {
-      const fetchLeaderboard = async () => {
-        try {
-          setLoading(true);
-          setError(null);
-          const response = await fetch("/api/leaderboard");
-
-          if (!response.ok) {
-            const errorData = await response.json();
-            if (response.status === 429) {
-              setError(
-                errorData.error ||
-                  "Rate limit exceeded. Please wait a moment and try again."
-              );
-            } else {
-              setError(errorData.error || "Failed to fetch leaderboard");
-            }
-            return;
-          }
-
-          const leaderboardData = await response.json();
-          setData(leaderboardData);
-          setHasFetched(true);
-        } catch (err: any) {
-          console.error("Error fetching leaderboard:", err);
-          setError(err.message || "Failed to fetch leaderboard");
-        } finally {
-          setLoading(false);
-        }
-      };
-
-      fetchLeaderboard();
+    boardVersion.current++;
+    if (!isExpanded) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setLoading(true);
+        setLoadingMore(false);
+        setError(null);
+        const page = await fetchPage(0);
+        if (cancelled || !page) return;
+        setData(page);
+        setHasMore(page.leaderboard.length === PAGE_SIZE);
+      } catch (err) {
+        console.error("Error fetching leaderboard:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to fetch leaderboard");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isExpanded, fetchPage]);
+
+  const loadMore = async () => {
+    if (!data) return;
+    const version = boardVersion.current;
+    try {
+      setLoadingMore(true);
+      const page = await fetchPage(data.leaderboard.length);
+      if (version !== boardVersion.current || !page) return;
+      setData({ ...page, leaderboard: [...data.leaderboard, ...page.leaderboard] } as BoardData);
+      setHasMore(page.leaderboard.length === PAGE_SIZE);
+    } catch (err) {
+      console.error("Error fetching leaderboard:", err);
+      if (version === boardVersion.current) setError(err instanceof Error ? err.message : "Failed to fetch leaderboard");
+    } finally {
+      if (version === boardVersion.current) setLoadingMore(false);
     }
-  }, [isExpanded, hasFetched]);
+  };
 
   const toggleExpanded = () => {
     setIsExpanded(!isExpanded);
@@ -79,6 +199,14 @@ export default function Leaderboard({ onDomainClick }: LeaderboardProps) {
     return null;
   };
 
+  const pillClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs md:text-sm font-semibold transition-colors ${active ? "bg-blue-100 text-blue-800" : "text-gray-500 hover:bg-gray-100"}`;
+
+  const currentCategory =
+    board === "names"
+      ? CATEGORIES.find((option) => option.value === category)!
+      : ADDRESS_CATEGORIES.find((option) => option.value === addressCategory)!;
+
   return (
     <div className="bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden">
       {/* Collapsible Header */}
@@ -89,7 +217,7 @@ export default function Leaderboard({ onDomainClick }: LeaderboardProps) {
         <div className="flex items-center gap-2">
           <Trophy className="text-yellow-500" size={20} />
           <h2 className="text-lg font-bold" style={{ color: "#011A25" }}>
-            Top 10 Most Transferred ENS Names
+            ENS Leaderboards
           </h2>
         </div>
         {isExpanded ? (
@@ -102,9 +230,53 @@ export default function Leaderboard({ onDomainClick }: LeaderboardProps) {
       {/* Expanded Content */}
       {isExpanded && (
         <div className="px-6 md:px-8 pb-6 md:pb-8">
+          {/* Board, window and club pickers */}
+          <div className="flex gap-1 mb-3 border-b border-gray-200 pb-3">
+            <button type="button" onClick={() => setBoard("names")} className={pillClass(board === "names")}>
+              Names
+            </button>
+            <button type="button" onClick={() => setBoard("addresses")} className={pillClass(board === "addresses")}>
+              Addresses
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1 mb-3">
+            {board === "names"
+              ? CATEGORIES.map((option) => (
+                  <button key={option.value} type="button" onClick={() => setCategory(option.value)} className={pillClass(category === option.value)}>
+                    {option.label}
+                  </button>
+                ))
+              : ADDRESS_CATEGORIES.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setAddressCategory(option.value)}
+                    className={pillClass(addressCategory === option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-1 mb-4 md:mb-6">
+            {WINDOWS.map((option) => (
+              <button key={option.value} type="button" onClick={() => setTimeWindow(option.value)} className={pillClass(timeWindow === option.value)}>
+                {option.label}
+              </button>
+            ))}
+            <span className="mx-2 text-gray-300">|</span>
+            <button type="button" onClick={() => setClub(null)} className={pillClass(club === null)}>
+              All names
+            </button>
+            {CLUBS.map((option) => (
+              <button key={option.value} type="button" onClick={() => setClub(option.value)} className={pillClass(club === option.value)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+
           {loading ? (
             <div className="space-y-4">
-              {[...Array(10)].map((_, i) => (
+              {[...Array(PAGE_SIZE)].map((_, i) => (
                 <div
                   key={i}
                   className="animate-pulse flex items-center gap-4 p-4 bg-gray-50 rounded-lg"
@@ -128,60 +300,113 @@ export default function Leaderboard({ onDomainClick }: LeaderboardProps) {
           ) : (
             <>
               <p className="text-xs md:text-sm mb-4 md:mb-6" style={{ color: "#011A25", opacity: 0.7 }}>
-                Domains ranked by number of ownership transitions
-              </p>
-              <p className="text-xs mb-4 md:mb-6" style={{ color: "#011A25", opacity: 0.6 }}>
-                Rankings are based on a sample of recent transfers and may not reflect complete history
+                {currentCategory.description}
               </p>
+              {!data.complete && (
+                <p className="text-xs mb-4 md:mb-6" style={{ color: "#011A25", opacity: 0.6 }}>
+                  The transfer index is still being built - rankings cover the history indexed so far
+                </p>
+              )}
 
               <div className="space-y-3">
-                {data.leaderboard.map((entry, index) => {
-                  const rank = index + 1;
-                  const rankIcon = getRankIcon(rank);
-
-                  return (
-                    <button
-                      key={entry.name}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onDomainClick(entry.name);
-                      }}
-                      className="w-full text-left block group"
-                    >
-                      <div
-                        className={`flex items-center gap-3 md:gap-4 p-3 md:p-4 rounded-lg border-2 transition-all hover:shadow-md cursor-pointer ${getRankColor(
-                          rank
-                        )}`}
-                      >
-                        {/* Rank */}
-                        <div className="flex-shrink-0 w-8 h-8 md:w-10 md:h-10 rounded-full flex items-center justify-center font-bold text-base md:text-lg border-2 bg-white">
-                          {rankIcon || rank}
-                        </div>
-
-                        {/* Domain Info */}
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2 mb-1">
-                            <h3 className="font-bold text-base md:text-lg font-mono break-all" style={{ color: "#011A25" }}>
-                              {entry.name}
-                            </h3>
+                {data.board === "names"
+                  ? data.leaderboard.map((entry, index) => {
+                      const rank = index + 1;
+                      const rankIcon = getRankIcon(rank);
+
+                      return (
+                        <button
+                          key={`${entry.name}-${index}`}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onDomainClick(entry.name);
+                          }}
+                          className="w-full text-left block group"
+                        >
+                          <div
+                            className={`flex items-center gap-3 md:gap-4 p-3 md:p-4 rounded-lg border-2 transition-all hover:shadow-md cursor-pointer ${getRankColor(
+                              rank
+                            )}`}
+                          >
+                            {/* Rank */}
+                            <div className="flex-shrink-0 w-8 h-8 md:w-10 md:h-10 rounded-full flex items-center justify-center font-bold text-base md:text-lg border-2 bg-white">
+                              {rankIcon || rank}
+                            </div>
+
+                            {/* Domain Info */}
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2 mb-1">
+                                <h3 className="font-bold text-base md:text-lg font-mono break-all" style={{ color: "#011A25" }}>
+                                  {beautifyENSName(entry.name)}
+                                </h3>
+                              </div>
+                              <div className="flex items-center gap-2 text-xs md:text-sm" style={{ color: "#011A25", opacity: 0.7 }}>
+                                <TrendingUp size={12} className="md:w-[14px] md:h-[14px]" />
+                                <span className="font-semibold">
+                                  {formatValue(category, data.unit, entry)}
+                                </span>
+                              </div>
+                            </div>
                           </div>
-                          <div className="flex items-center gap-2 text-xs md:text-sm" style={{ color: "#011A25", opacity: 0.7 }}>
-                            <TrendingUp size={12} className="md:w-[14px] md:h-[14px]" />
-                            <span className="font-semibold">
-                              {entry.transferCount} ownership transition{entry.transferCount !== 1 ? "s" : ""}
-                            </span>
+                        </button>
+                      );
+                    })
+                  : data.leaderboard.map((entry, index) => {
+                      const rank = index + 1;
+                      const rankIcon = getRankIcon(rank);
+
+                      return (
+                        <Link key={entry.address} href={`/address/${entry.address}`} className="block group">
+                          <div
+                            className={`flex items-center gap-3 md:gap-4 p-3 md:p-4 rounded-lg border-2 transition-all hover:shadow-md cursor-pointer ${getRankColor(
+                              rank
+                            )}`}
+                          >
+                            {/* Rank */}
+                            <div className="flex-shrink-0 w-8 h-8 md:w-10 md:h-10 rounded-full flex items-center justify-center font-bold text-base md:text-lg border-2 bg-white">
+                              {rankIcon || rank}
+                            </div>
+
+                            {/* Owner Info */}
+                            {entry.avatar && (
+                              <img src={entry.avatar} alt="" className="w-8 h-8 md:w-10 md:h-10 rounded-full object-cover flex-shrink-0" />
+                            )}
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2 mb-1">
+                                <h3 className="font-bold text-base md:text-lg font-mono break-all" style={{ color: "#011A25" }}>
+                                  {entry.ensName ? beautifyENSName(entry.ensName) : formatAddress(entry.address)}
+                                </h3>
+                              </div>
+                              <div className="flex items-center gap-2 text-xs md:text-sm" style={{ color: "#011A25", opacity: 0.7 }}>
+                                <TrendingUp size={12} className="md:w-[14px] md:h-[14px]" />
+                                <span className="font-semibold">
+                                  {formatAddressValue(addressCategory, entry)}
+                                </span>
+                              </div>
+                            </div>
                           </div>
-                        </div>
-                      </div>
-                    </button>
-                  );
-                })}
+                        </Link>
+                      );
+                    })}
               </div>
 
+              {hasMore && (
+                <div className="mt-4 text-center">
+                  <button
+                    type="button"
+                    onClick={loadMore}
+                    disabled={loadingMore}
+                    className="px-4 py-2 text-sm font-semibold rounded-lg text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                  >
+                    {loadingMore ? "Loading..." : "Show more"}
+                  </button>
+                </div>
+              )}
+
               {data.totalTransfersAnalyzed > 0 && (
                 <div className="mt-6 pt-6 border-t border-gray-200">
                   <p className="text-xs text-center" style={{ color: "#011A25", opacity: 0.6 }}>
-                    Based on analysis of {data.totalTransfersAnalyzed.toLocaleString()} recent transfers
+                    Based on {data.complete ? "all" : "the first"} {data.totalTransfersAnalyzed.toLocaleString()} ownership events
                   </p>
                 </div>
               )}
@@ -192,4 +417,3 @@ export default function Leaderboard({ onDomainClick }: LeaderboardProps) {
     </div>
   );
 }
-
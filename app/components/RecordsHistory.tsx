@@ -0,0 +1,131 @@
+"use client";
+
+import { ChevronDown, ChevronRight, ExternalLink, FileText } from "lucide-react";
+import { useState } from "react";
+import type { ENSRecordChangeResponse, ENSRecordsHistoryResponse } from "@/types/ens";
+
+interface RecordsHistoryProps {
+  records: ENSRecordsHistoryResponse | null;
+  loading: boolean;
+  error: string | null;
+  onOpen: () => void; // Load the records (shared with the point-in-time lookup)
+}
+
+// SLIP-44 coin types most names set
+const COIN_LABELS: Record<string, string> = {
+  "0": "BTC",
+  "2": "LTC",
+  "3": "DOGE",
+  "60": "ETH",
+  "501": "SOL",
+};
+
+const describeChange = (change: ENSRecordChangeResponse) => {
+  switch (change.type) {
+    case "resolver":
+      return "Resolver";
+    case "addr":
+      return `Address (${COIN_LABELS[change.coinType ?? ""] ?? `coin ${change.coinType}`})`;
+    case "contenthash":
+      return "Contenthash";
+    case "text":
+      return `Text: ${change.key}`;
+  }
+};
+
+// Collapsible list of resolver and record changes, loaded the first time it's opened
+export default function RecordsHistory({ records: data, loading, error, onOpen }: RecordsHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const formatDate = (date: string) =>
+    new Intl.DateTimeFormat("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(date));
+
+  return (
+    <div className="mt-8 md:mt-12">
+      <button
+        onClick={() => {
+          if (!isOpen) onOpen();
+          setIsOpen(!isOpen);
+        }}
+        className="flex items-center gap-2 text-xl md:text-2xl font-bold"
+        style={{ color: '#011A25' }}
+      >
+        {isOpen ? <ChevronDown size={24} /> : <ChevronRight size={24} />}
+        Records history
+      </button>
+      <p className="text-xs md:text-sm mt-1 mb-4" style={{ color: '#011A25', opacity: 0.7 }}>
+        Resolver, address, contenthash and text record changes
+      </p>
+
+      {isOpen && (
+        <div>
+          {loading && (
+            <div className="space-y-3 animate-pulse">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="h-12 bg-gray-100 rounded-lg"></div>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {data?.truncated && (
+            <p className="mb-2 text-xs text-amber-700">
+              This name has a very long records history; not every change could be loaded.
+            </p>
+          )}
+
+          {data && data.changes.length === 0 && (
+            <div className="text-center py-8">
+              <FileText className="text-gray-400 mx-auto mb-3" size={32} />
+              <p className="text-gray-500 text-sm">No record changes found for this name</p>
+            </div>
+          )}
+
+          {data && data.changes.length > 0 && (
+            <div className="space-y-2">
+              {[...data.changes].reverse().map((change, index) => (
+                <div
+                  key={`${change.transactionHash}-${index}`}
+                  className={`flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg border ${change.isActive ? 'border-gray-200 bg-white' : 'border-dashed border-gray-200 bg-gray-50 opacity-60'}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 text-sm font-semibold" style={{ color: '#011A25' }}>
+                      {describeChange(change)}
+                      {!change.isActive && (
+                        <span className="px-2 py-0.5 text-xs font-normal bg-gray-100 text-gray-600 rounded-full">
+                          Inactive resolver
+                        </span>
+                      )}
+                    </div>
+                    <div className="font-mono text-xs break-all mt-1" style={{ color: '#011A25', opacity: 0.8 }}>
+                      {change.type === "resolver" ? change.resolver : (change.value || <span className="italic">(cleared or not indexed)</span>)}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs flex-shrink-0" style={{ color: '#011A25', opacity: 0.7 }}>
+                    <span>{change.estimated ? `~${formatDate(change.date)}` : formatDate(change.date)}</span>
+                    <a
+                      href={`https://etherscan.io/tx/${change.transactionHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-400 hover:text-gray-600 transition-colors"
+                      title="View transaction on Etherscan"
+                    >
+                      <ExternalLink size={14} />
+                    </a>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
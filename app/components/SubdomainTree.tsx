@@ -0,0 +1,196 @@
+"use client";
+
+import Link from "next/link";
+import { ChevronDown, ChevronRight, ExternalLink, GitBranch } from "lucide-react";
+import { useEffect, useState } from "react";
+import { beautifyENSName } from "@/lib/ens-history/names";
+import type { ENSSubdomainTreeResponse } from "@/types/ens";
+
+interface SubdomainTreeProps {
+  ensName: string;
+}
+
+const formatDate = (date: string | undefined) => {
+  if (!date) return "Unknown";
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  }).format(new Date(date));
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Children of one name; each child with subnames of its own can be expanded in place
+function SubdomainList({ name, depth }: { name: string; depth: number }) {
+  const [data, setData] = useState<ENSSubdomainTreeResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const fetchSubdomains = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(`/api/ens/subdomains?name=${encodeURIComponent(name)}`);
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          setError(errorData.error || "Failed to fetch subdomains");
+          return;
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        console.error("Error fetching subdomains:", err);
+        setError(err instanceof Error ? err.message : "Failed to fetch subdomains");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSubdomains();
+  }, [name]);
+
+  const toggle = (node: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(node)) next.delete(node);
+      else next.add(node);
+      return next;
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-2 animate-pulse">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-10 bg-gray-100 rounded-lg"></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="text-sm text-red-600">{error || "Failed to fetch subdomains"}</p>;
+  }
+
+  if (data.subdomains.length === 0) {
+    return <p className="text-sm text-gray-500">{depth === 0 ? "This name has no subdomains" : "No subdomains"}</p>;
+  }
+
+  return (
+    <div className={depth > 0 ? "ml-4 md:ml-6 pl-3 border-l-2 border-gray-100" : ""}>
+      {data.truncated && (
+        <p className="mb-2 text-xs text-amber-700">
+          This name has a very large number of subdomains; only the first {data.subdomains.length} are listed.
+        </p>
+      )}
+      <div className="space-y-2">
+        {data.subdomains.map((subdomain) => {
+          const isExpanded = expanded.has(subdomain.node);
+          return (
+            <div key={subdomain.node}>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg border border-gray-200 bg-white">
+                <div className="flex items-start gap-2 flex-1 min-w-0">
+                  {subdomain.subdomainCount > 0 ? (
+                    <button
+                      onClick={() => toggle(subdomain.node)}
+                      className="mt-0.5 text-gray-400 hover:text-gray-600"
+                      title={isExpanded ? "Hide subdomains" : "Show subdomains"}
+                    >
+                      {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                    </button>
+                  ) : (
+                    <span className="w-4 flex-shrink-0"></span>
+                  )}
+                  <div className="min-w-0">
+                    <Link
+                      href={`/${subdomain.name}`}
+                      className="font-mono text-sm font-semibold break-all hover:underline"
+                      style={{ color: '#011A25' }}
+                      title="View ownership history"
+                    >
+                      {beautifyENSName(subdomain.name)}
+                    </Link>
+                    <div className="text-xs mt-1" style={{ color: '#011A25', opacity: 0.7 }}>
+                      Created {formatDate(subdomain.createdAt)}
+                      {subdomain.createdBy && (
+                        <>
+                          {" by "}
+                          <Link href={`/address/${subdomain.createdBy}`} className="font-mono hover:underline">
+                            {formatAddress(subdomain.createdBy)}
+                          </Link>
+                        </>
+                      )}
+                      {subdomain.initialOwner && subdomain.initialOwner.toLowerCase() !== subdomain.createdBy?.toLowerCase() && (
+                        <>
+                          {" for "}
+                          <Link href={`/address/${subdomain.initialOwner}`} className="font-mono hover:underline">
+                            {formatAddress(subdomain.initialOwner)}
+                          </Link>
+                        </>
+                      )}
+                      {" · owned by "}
+                      <Link href={`/address/${subdomain.owner}`} className="font-mono hover:underline">
+                        {formatAddress(subdomain.owner)}
+                      </Link>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {subdomain.subdomainCount > 0 && (
+                    <span className="px-2 py-1 text-xs font-semibold bg-gray-100 text-gray-700 rounded-full">
+                      {subdomain.subdomainCount} subdomain{subdomain.subdomainCount !== 1 ? "s" : ""}
+                    </span>
+                  )}
+                  {subdomain.creationTransactionHash && (
+                    <a
+                      href={`https://etherscan.io/tx/${subdomain.creationTransactionHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-400 hover:text-gray-600 transition-colors"
+                      title="View creation transaction on Etherscan"
+                    >
+                      <ExternalLink size={14} />
+                    </a>
+                  )}
+                </div>
+              </div>
+              {isExpanded && (
+                <div className="mt-2">
+                  <SubdomainList name={subdomain.name} depth={depth + 1} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Collapsible subdomain browser, loaded the first time it's opened
+export default function SubdomainTree({ ensName }: SubdomainTreeProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-8 md:mt-12">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 text-xl md:text-2xl font-bold"
+        style={{ color: '#011A25' }}
+      >
+        {isOpen ? <ChevronDown size={24} /> : <ChevronRight size={24} />}
+        Subdomains
+      </button>
+      <p className="flex items-center gap-1 text-xs md:text-sm mt-1 mb-4" style={{ color: '#011A25', opacity: 0.7 }}>
+        <GitBranch size={14} />
+        Every subname, who created it and when - open one to see its own ownership history
+      </p>
+
+      {isOpen && <SubdomainList name={ensName} depth={0} />}
+    </div>
+  );
+}
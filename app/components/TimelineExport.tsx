@@ -0,0 +1,229 @@
+"use client";
+
+import { Download, FileText, Printer } from "lucide-react";
+import { beautifyENSName } from "@/lib/ens-history/names";
+import type { TimelinePeriod } from "./ENSHistory";
+
+interface TimelineExportProps {
+  ensName: string;
+  timeline: TimelinePeriod[]; // Oldest first
+  expiryDate?: string;
+  rawResponse?: unknown; // The /api/ens response, for the JSON export
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What a timeline row stands for, as shown in the exports
+const getPeriodType = (period: TimelinePeriod) => {
+  if (period.registrationEvent) return period.registrationEvent.type;
+  if (period.isBurned) return "burn";
+  if (period.lapse) return "lapse";
+  if (period.isDormant) return "dormant";
+  return "ownership";
+};
+
+const getTransactionHash = (period: TimelinePeriod) =>
+  period.burnTransactionHash || period.lapse?.transactionHash || period.owner.transactionHash || "";
+
+// Ownership periods have an owner; events and gaps only carry a placeholder address
+const getAddress = (period: TimelinePeriod) => {
+  const type = getPeriodType(period);
+  return type === "ownership" || type === "registration" || type === "renewal" ? period.owner.address : "";
+};
+
+const etherscanUrl = (hash: string) => (hash ? `https://etherscan.io/tx/${hash}` : "");
+
+const toDays = (ms: number) => (ms / DAY_MS).toFixed(1);
+
+// Quote cells that need it, and defuse values a spreadsheet would run as a formula
+const csvCell = (value: string | number | boolean | undefined) => {
+  let text = value === undefined ? "" : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = [
+  "type",
+  "address",
+  "ens_name",
+  "start",
+  "end",
+  "start_estimated",
+  "end_estimated",
+  "duration_days",
+  "marketplace",
+  "sale_price",
+  "sale_currency",
+  "sale_usd",
+  "transaction_hash",
+  "etherscan_url",
+];
+
+// One row per timeline period, burns, dormant gaps, lapses and renewals included
+const buildCsv = (timeline: TimelinePeriod[]) => {
+  const rows = timeline.map((period) => {
+    const hash = getTransactionHash(period);
+    const sale = getPeriodType(period) === "ownership" ? period.owner.sale : undefined;
+    return [
+      getPeriodType(period),
+      getAddress(period),
+      getAddress(period) ? period.owner.ensName : "",
+      period.startDate.toISOString(),
+      period.endDate ? period.endDate.toISOString() : "",
+      period.startEstimated ?? false,
+      period.endEstimated ?? false,
+      toDays(period.duration),
+      period.isMarketplace ? period.marketplaceName : sale?.marketplace,
+      sale?.price,
+      sale?.currency,
+      sale?.priceUsd,
+      hash,
+      etherscanUrl(hash),
+    ].map(csvCell).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatReportDate = (date: Date | null | undefined, estimated?: boolean) => {
+  if (!date) return "-";
+  const formatted = date.toISOString().slice(0, estimated ? 10 : 16).replace("T", " ");
+  return estimated ? `~${formatted}` : `${formatted} UTC`;
+};
+
+const REPORT_TYPE_LABELS: Record<string, string> = {
+  ownership: "Owner",
+  registration: "Registration",
+  renewal: "Renewal",
+  burn: "Burn",
+  lapse: "Expired",
+  dormant: "Dormant",
+};
+
+// Self-contained, printable report: summary, owner table with durations and transaction links
+const buildReportHtml = (ensName: string, timeline: TimelinePeriod[], expiryDate: string | undefined, autoPrint: boolean) => {
+  const displayName = escapeHtml(beautifyENSName(ensName));
+  const ownerCount = new Set(
+    timeline.filter((period) => getPeriodType(period) === "ownership").map((period) => period.owner.address.toLowerCase())
+  ).size;
+
+  const rows = [...timeline].reverse().map((period) => {
+    const type = getPeriodType(period);
+    const address = getAddress(period);
+    const hash = getTransactionHash(period);
+    const owner = address
+      ? `<span class="mono">${escapeHtml(address)}</span>${period.owner.ensName ? `<br>${escapeHtml(period.owner.ensName)}` : ""}`
+      : "";
+    const sale = type === "ownership" && period.owner.sale
+      ? `<br>Sold for ${escapeHtml(period.owner.sale.price)} ${escapeHtml(period.owner.sale.currency)}`
+      : "";
+    return `<tr>
+      <td>${REPORT_TYPE_LABELS[type] ?? type}${period.isMarketplace && period.marketplaceName ? ` (${escapeHtml(period.marketplaceName)})` : ""}</td>
+      <td>${owner}${sale}</td>
+      <td>${formatReportDate(period.startDate, period.startEstimated)}</td>
+      <td>${period.duration > 0 ? formatReportDate(period.endDate, period.endEstimated) : ""}</td>
+      <td>${period.duration > 0 ? `${toDays(period.duration)} days` : ""}</td>
+      <td>${hash ? `<a class="mono" href="${etherscanUrl(hash)}">${hash.slice(0, 10)}…${hash.slice(-8)}</a>` : ""}</td>
+    </tr>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${displayName} - ownership report</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #011A25; margin: 2rem; font-size: 12px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  .meta { color: #555; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid #ddd; }
+  th { border-bottom: 2px solid #011A25; }
+  .mono { font-family: ui-monospace, monospace; word-break: break-all; }
+  a { color: #0080BC; }
+  @media print { body { margin: 0; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${displayName}</h1>
+<div class="meta">
+  Ownership report generated ${formatReportDate(new Date())} by pastens<br>
+  ${ownerCount} owner${ownerCount !== 1 ? "s" : ""} · expiry ${expiryDate ? formatReportDate(new Date(expiryDate)) : "none"}<br>
+  Dates prefixed with ~ are estimated from the block number
+</div>
+<table>
+  <thead><tr><th>Event</th><th>Owner</th><th>From</th><th>To</th><th>Duration</th><th>Transaction</th></tr></thead>
+  <tbody>${rows.join("")}</tbody>
+</table>
+${autoPrint ? "<script>window.onload = () => window.print();</script>" : ""}
+</body>
+</html>
+`;
+};
+
+const download = (content: string, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns - revoking right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
+
+// Export buttons for the ownership timeline: CSV, the raw API JSON, and an HTML report to print as PDF
+export default function TimelineExport({ ensName, timeline, expiryDate, rawResponse }: TimelineExportProps) {
+  const buttonClass =
+    "flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 transition-colors";
+
+  const printReport = () => {
+    const url = URL.createObjectURL(
+      new Blob([buildReportHtml(ensName, timeline, expiryDate, true)], { type: "text/html" })
+    );
+    window.open(url, "_blank");
+    // The new tab loads the blob asynchronously - release it once that's surely done
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button
+        type="button"
+        className={buttonClass}
+        title="One row per period, including burns and dormant gaps"
+        onClick={() => download(buildCsv(timeline), "text/csv", `${ensName}-ownership.csv`)}
+      >
+        <Download size={14} />
+        CSV
+      </button>
+      {rawResponse !== undefined && (
+        <button
+          type="button"
+          className={buttonClass}
+          title="The API response this timeline was built from"
+          onClick={() => download(JSON.stringify(rawResponse, null, 2), "application/json", `${ensName}-history.json`)}
+        >
+          <Download size={14} />
+          JSON
+        </button>
+      )}
+      <button
+        type="button"
+        className={buttonClass}
+        title="Download the report as a standalone HTML file"
+        onClick={() =>
+          download(buildReportHtml(ensName, timeline, expiryDate, false), "text/html", `${ensName}-report.html`)
+        }
+      >
+        <FileText size={14} />
+        HTML
+      </button>
+      <button type="button" className={buttonClass} title="Open the report and print it or save it as PDF" onClick={printReport}>
+        <Printer size={14} />
+        PDF
+      </button>
+    </div>
+  );
+}
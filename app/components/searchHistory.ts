@@ -0,0 +1,39 @@
+// Recent searches, kept in localStorage and shared by the search box and the name pages
+const SEARCH_HISTORY_KEY = "pastens_search_history";
+const MAX_SEARCH_HISTORY = 10;
+// Fired on every change so a mounted search box picks up names saved elsewhere on the page
+const SEARCH_HISTORY_EVENT = "pastens:search-history";
+
+export const loadSearchHistory = (): string[] => {
+  const stored = localStorage.getItem(SEARCH_HISTORY_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error("Failed to parse search history:", e);
+    return [];
+  }
+};
+
+const storeSearchHistory = (names: string[]) => {
+  localStorage.setItem(SEARCH_HISTORY_KEY, JSON.stringify(names));
+  window.dispatchEvent(new Event(SEARCH_HISTORY_EVENT));
+};
+
+// Move a name to the front (adding it if new)
+export const addToSearchHistory = (name: string) => {
+  const normalizedName = name.trim();
+  if (!normalizedName) return;
+  const filtered = loadSearchHistory().filter((item) => item.toLowerCase() !== normalizedName);
+  storeSearchHistory([normalizedName, ...filtered].slice(0, MAX_SEARCH_HISTORY));
+};
+
+export const removeFromSearchHistory = (name: string) => {
+  storeSearchHistory(loadSearchHistory().filter((item) => item.toLowerCase() !== name.toLowerCase()));
+};
+
+// Subscribe to changes; returns the unsubscribe function
+export const onSearchHistoryChange = (listener: () => void) => {
+  window.addEventListener(SEARCH_HISTORY_EVENT, listener);
+  return () => window.removeEventListener(SEARCH_HISTORY_EVENT, listener);
+};
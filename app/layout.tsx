@@ -14,6 +14,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
+  // Absolute base for the Open Graph / Twitter image URLs
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL || "https://pastens.com"),
   title: "pastens — ENS Ownership History",
   description: "Explore the ownership history of Ethereum Name Service (ENS) domains",
   openGraph: {
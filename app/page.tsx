@@ -1,72 +1,41 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
-import { useRouter, usePathname } from "next/navigation";
+import { useState, useRef, useEffect, useTransition } from "react";
+import { useRouter } from "next/navigation";
 import { Search, Volume2, History, X } from "lucide-react";
-import ENSHistory, { ENSOwner } from "./components/ENSHistory";
-import ENSHistorySkeleton from "./components/ENSHistorySkeleton";
+import BatchLookup from "./components/BatchLookup";
+import { DomainResultsSkeleton } from "./components/DomainResults";
 import Leaderboard from "./components/Leaderboard";
-
-const SEARCH_HISTORY_KEY = "pastens_search_history";
-const MAX_SEARCH_HISTORY = 10;
+import {
+  loadSearchHistory,
+  onSearchHistoryChange,
+  removeFromSearchHistory,
+} from "./components/searchHistory";
+import { beautifyENSName, normalizeENSName } from "@/lib/ens-history/names";
 
 interface HomeProps {
   initialDomain?: string;
+  results?: React.ReactNode; // Server-rendered results for initialDomain (see app/[domain]/page.tsx)
 }
 
 export default function Home(props: HomeProps = {}) {
-  const { initialDomain } = props;
+  const { initialDomain, results } = props;
   const router = useRouter();
-  const pathname = usePathname();
-  const [ensName, setEnsName] = useState("");
-  const [isSearching, setIsSearching] = useState(false);
+  const [ensName, setEnsName] = useState(initialDomain ?? "");
+  const [isSearching, startSearch] = useTransition();
   const [error, setError] = useState<string | null>(null);
-  const [searchResults, setSearchResults] = useState<{
-    name: string;
-    owners: ENSOwner[];
-    currentOwner?: ENSOwner;
-    expiryDate?: string;
-    burnEvents?: Array<{
-      date: string;
-      transactionHash: string;
-      blockNumber: string;
-    }>;
-  } | null>(null);
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
   const [showHistory, setShowHistory] = useState(false);
+  const [batchMode, setBatchMode] = useState(false);
   const resultsRef = useRef<HTMLDivElement>(null);
 
-  // Load search history from localStorage on mount
+  // Load search history from localStorage on mount, and follow names saved by the results
   useEffect(() => {
-    const stored = localStorage.getItem(SEARCH_HISTORY_KEY);
-    if (stored) {
-      try {
-        setSearchHistory(JSON.parse(stored));
-      } catch (e) {
-        console.error("Failed to parse search history:", e);
-      }
-    }
+    const sync = () => setSearchHistory(loadSearchHistory());
+    sync();
+    return onSearchHistoryChange(sync);
   }, []);
 
-  // Check for domain in URL path on mount or from initialDomain prop
-  useEffect(() => {
-    // If initialDomain prop is provided (from dynamic route), use it
-    if (initialDomain) {
-      setEnsName(initialDomain);
-      performSearch(initialDomain);
-      return;
-    }
-    
-    // Otherwise, extract domain from pathname (e.g., "/ens.eth" -> "ens.eth")
-    if (pathname && pathname !== "/") {
-      const domainFromPath = pathname.slice(1); // Remove leading slash
-      if (domainFromPath) {
-        setEnsName(domainFromPath);
-        performSearch(domainFromPath);
-      }
-    }
-  }, [pathname, initialDomain]); // eslint-disable-line react-hooks/exhaustive-deps
-
   // Close search history when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -82,82 +51,30 @@ export default function Home(props: HomeProps = {}) {
     }
   }, [showHistory]);
 
-  // Save search to history
-  const saveToHistory = (name: string) => {
-    const normalizedName = name.trim().toLowerCase();
-    if (!normalizedName) return;
-
-    setSearchHistory((prev) => {
-      // Remove if already exists and add to front
-      const filtered = prev.filter((item) => item.toLowerCase() !== normalizedName);
-      const updated = [normalizedName, ...filtered].slice(0, MAX_SEARCH_HISTORY);
-      localStorage.setItem(SEARCH_HISTORY_KEY, JSON.stringify(updated));
-      return updated;
-    });
-  };
-
-  // Update URL with domain path
-  const updateURL = (name: string) => {
-    const normalizedName = name.trim().toLowerCase();
-    if (normalizedName) {
-      router.push(`/${normalizedName}`);
-    } else {
-      router.push("/");
+  // Histories are rendered on the server: searching navigates to the name's page
+  const performSearch = (name: string) => {
+    // ENSIP-15 normalization; bare labels get .eth, names with a TLD (e.g. example.com) keep it
+    let searchName: string;
+    try {
+      searchName = normalizeENSName(name);
+    } catch (error) {
+      setShowHistory(false);
+      setError(error instanceof Error ? error.message : "Invalid ENS name");
+      return;
     }
-  };
 
-  const performSearch = async (name: string) => {
-    // Convert to lowercase and add .eth suffix if not present
-    let searchName = name.trim().toLowerCase();
-    if (!searchName.endsWith('.eth')) {
-      searchName = searchName + '.eth';
-    }
-    
-    setIsSearching(true);
-    setSearchResults(null);
     setError(null);
     setShowHistory(false);
-    
-    // Update URL
-    updateURL(searchName);
-    
-    try {
-      // Call the API route to fetch ENS history
-      const response = await fetch(`/api/ens?name=${encodeURIComponent(searchName)}`);
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        
-        // Handle rate limiting specifically
-        if (response.status === 429) {
-          setError(
-            errorData.error || 
-            "Rate limit exceeded. The Graph API is temporarily rate-limiting requests. Please wait a few moments and try again."
-          );
-        } else {
-          // Handle all other errors by setting error state instead of throwing
-          setError(errorData.error || "Failed to fetch ENS history. Please try again.");
-        }
-        return;
-      }
-      
-      const data = await response.json();
-      setSearchResults(data);
-      
-      // Save to search history on successful search
-      saveToHistory(searchName);
-    } catch (error: any) {
-      console.error("Error fetching ENS history:", error);
-      setError(error.message || "Failed to fetch ENS history. Please try again.");
-    } finally {
-      setIsSearching(false);
-    }
+    startSearch(() => {
+      if (searchName === initialDomain) router.refresh();
+      else router.push(`/${searchName}`);
+    });
   };
 
-  const handleSearch = async (e: React.FormEvent) => {
+  const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (!ensName.trim()) return;
-    await performSearch(ensName);
+    performSearch(ensName);
   };
 
   const handleLeaderboardClick = (name: string) => {
@@ -180,15 +97,11 @@ export default function Home(props: HomeProps = {}) {
 
   const removeFromHistory = (name: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    setSearchHistory((prev) => {
-      const updated = prev.filter((item) => item.toLowerCase() !== name.toLowerCase());
-      localStorage.setItem(SEARCH_HISTORY_KEY, JSON.stringify(updated));
-      // Close dropdown if history becomes empty
-      if (updated.length === 0) {
-        setShowHistory(false);
-      }
-      return updated;
-    });
+    removeFromSearchHistory(name);
+    // Close dropdown if history becomes empty
+    if (loadSearchHistory().length === 0) {
+      setShowHistory(false);
+    }
   };
 
   return (
@@ -274,124 +187,122 @@ export default function Home(props: HomeProps = {}) {
             <Leaderboard onDomainClick={handleLeaderboardClick} />
           </div>
 
-          {/* Search Form */}
-          <form onSubmit={handleSearch} className="mb-16">
-            <div className="flex flex-col sm:flex-row gap-4">
-              <div className="flex-1 relative search-history-container">
-                <input
-                  type="text"
-                  value={ensName}
-                  onChange={(e) => setEnsName(e.target.value.toLowerCase())}
-                  placeholder="Enter ENS name (e.g., ens.eth)"
-                  className="w-full px-6 py-4 text-xl rounded-xl border-2 border-gray-200 bg-white text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all shadow-sm hover:shadow-md"
-                  style={{ textTransform: 'lowercase' }}
-                  disabled={isSearching}
-                />
-                <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-2">
-                  {searchHistory.length > 0 && (
-                    <button
-                      type="button"
-                      onClick={() => setShowHistory(!showHistory)}
-                      className="text-gray-400 hover:text-gray-600 transition-colors"
-                      title="Search history"
-                    >
-                      <History size={20} />
-                    </button>
-                  )}
-                  <div className="text-gray-400 pointer-events-none">
-                    <Search size={24} />
+          {/* Mode switch: one name, or many at once */}
+          <div className="flex gap-2 mb-4 text-sm font-semibold">
+            {[
+              { batch: false, label: "Single name" },
+              { batch: true, label: "Batch lookup" },
+            ].map((mode) => (
+              <button
+                key={mode.label}
+                type="button"
+                onClick={() => setBatchMode(mode.batch)}
+                className={`px-4 py-2 rounded-full transition-colors ${batchMode === mode.batch ? 'bg-blue-100 text-blue-800' : 'text-gray-500 hover:bg-gray-100'}`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+
+          {batchMode ? (
+            <div className="bg-white rounded-2xl shadow-xl p-4 md:p-8 border border-gray-200 overflow-hidden">
+              <BatchLookup />
+            </div>
+          ) : (
+            <>
+            {/* Search Form */}
+            <form onSubmit={handleSearch} className="mb-16">
+              <div className="flex flex-col sm:flex-row gap-4">
+                <div className="flex-1 relative search-history-container">
+                  <input
+                    type="text"
+                    value={ensName}
+                    onChange={(e) => setEnsName(e.target.value)}
+                    placeholder="Enter ENS name (e.g., ens.eth)"
+                    className="w-full px-6 py-4 text-xl rounded-xl border-2 border-gray-200 bg-white text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all shadow-sm hover:shadow-md"
+                    disabled={isSearching}
+                  />
+                  <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-2">
+                    {searchHistory.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setShowHistory(!showHistory)}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Search history"
+                      >
+                        <History size={20} />
+                      </button>
+                    )}
+                    <div className="text-gray-400 pointer-events-none">
+                      <Search size={24} />
+                    </div>
                   </div>
-                </div>
                 
-                {/* Search History Dropdown */}
-                {showHistory && searchHistory.length > 0 && (
-                  <div className="absolute top-full left-0 right-0 mt-2 bg-white rounded-xl border-2 border-gray-200 shadow-xl z-50 max-h-64 overflow-y-auto">
-                    <div className="p-2">
-                      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
-                        <span className="text-sm font-semibold text-gray-600">Recent Searches</span>
-                        <button
-                          type="button"
-                          onClick={() => setShowHistory(false)}
-                          className="text-gray-400 hover:text-gray-600"
-                        >
-                          <X size={16} />
-                        </button>
-                      </div>
-                      {searchHistory.map((item, index) => (
-                        <div
-                          key={index}
-                          onClick={() => handleHistoryClick(item)}
-                          className="w-full text-left px-3 py-2 hover:bg-gray-50 rounded-lg flex items-center justify-between group cursor-pointer"
-                        >
-                          <span className="text-sm font-mono text-gray-700">{item}</span>
+                  {/* Search History Dropdown */}
+                  {showHistory && searchHistory.length > 0 && (
+                    <div className="absolute top-full left-0 right-0 mt-2 bg-white rounded-xl border-2 border-gray-200 shadow-xl z-50 max-h-64 overflow-y-auto">
+                      <div className="p-2">
+                        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+                          <span className="text-sm font-semibold text-gray-600">Recent Searches</span>
                           <button
                             type="button"
-                            onClick={(e) => removeFromHistory(item, e)}
-                            className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600 transition-opacity"
+                            onClick={() => setShowHistory(false)}
+                            className="text-gray-400 hover:text-gray-600"
                           >
-                            <X size={14} />
+                            <X size={16} />
                           </button>
                         </div>
-                      ))}
+                        {searchHistory.map((item, index) => (
+                          <div
+                            key={index}
+                            onClick={() => handleHistoryClick(item)}
+                            className="w-full text-left px-3 py-2 hover:bg-gray-50 rounded-lg flex items-center justify-between group cursor-pointer"
+                          >
+                            <span className="text-sm font-mono text-gray-700">{beautifyENSName(item)}</span>
+                            <button
+                              type="button"
+                              onClick={(e) => removeFromHistory(item, e)}
+                              className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600 transition-opacity"
+                            >
+                              <X size={14} />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
+                </div>
+                <button
+                  type="submit"
+                  disabled={isSearching || !ensName.trim()}
+                  style={{ backgroundColor: '#093C52' }}
+                  className="px-8 py-4 text-white font-semibold rounded-xl hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-xl transform hover:scale-[1.02] active:scale-[0.98]"
+                >
+                  {isSearching ? "Searching..." : "Search"}
+                </button>
               </div>
-              <button
-                type="submit"
-                disabled={isSearching || !ensName.trim()}
-                style={{ backgroundColor: '#093C52' }}
-                className="px-8 py-4 text-white font-semibold rounded-xl hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-xl transform hover:scale-[1.02] active:scale-[0.98]"
-              >
-                {isSearching ? "Searching..." : "Search"}
-              </button>
-            </div>
-          </form>
+            </form>
 
-          {/* Results Area */}
-          <div ref={resultsRef} className="bg-white rounded-2xl shadow-xl p-4 md:p-8 border border-gray-200 overflow-hidden">
-            {error ? (
-              <div className="text-center text-red-600">
-                <p className="text-lg font-semibold">Error</p>
-                <p className="text-sm mt-2">{error}</p>
-              </div>
-            ) : isSearching ? (
-              <>
-                {/* ENS Name Label Skeleton */}
-                <div className="mb-8 text-left animate-pulse">
-                  <div className="h-10 w-48 bg-gray-200 rounded mb-2"></div>
-                  <div className="h-4 w-32 bg-gray-200 rounded"></div>
+            {/* Results Area */}
+            <div ref={resultsRef} className="bg-white rounded-2xl shadow-xl p-4 md:p-8 border border-gray-200 overflow-hidden">
+              {error ? (
+                <div className="text-center text-red-600">
+                  <p className="text-lg font-semibold">Error</p>
+                  <p className="text-sm mt-2">{error}</p>
                 </div>
-                <ENSHistorySkeleton />
-              </>
-            ) : searchResults ? (
-              <>
-                {/* ENS Name Label */}
-                <div className="mb-8 text-left">
-                  <h2 className="text-4xl font-bold mb-2" style={{ color: '#011A25' }}>
-                    {searchResults.name}
-                  </h2>
-                  <p className="text-sm" style={{ color: '#011A25', opacity: 0.7 }}>
-                    Ownership history
-                  </p>
+              ) : isSearching ? (
+                <DomainResultsSkeleton />
+              ) : results ? (
+                results
+              ) : (
+                <div className="text-center text-gray-500">
+                  <p className="text-lg">Enter an ENS name above to view its ownership history</p>
+                  <p className="text-sm mt-2">See who owned the domain and when ownership changed</p>
                 </div>
-
-                {/* History Timeline */}
-                <ENSHistory
-                  ensName={searchResults.name}
-                  owners={searchResults.owners}
-                  currentOwner={searchResults.currentOwner}
-                  expiryDate={searchResults.expiryDate}
-                  burnEvents={searchResults.burnEvents}
-                />
-              </>
-            ) : (
-              <div className="text-center text-gray-500">
-                <p className="text-lg">Enter an ENS name above to view its ownership history</p>
-                <p className="text-sm mt-2">See who owned the domain and when ownership changed</p>
-              </div>
-            )}
-          </div>
+              )}
+            </div>
+            </>
+          )}
         </div>
       </main>
     </div>
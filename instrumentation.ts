@@ -0,0 +1,11 @@
+// Runs once when the server starts
+export async function register() {
+  // The leaderboard indexer needs Node (SQLite) and a long-lived process
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startLeaderboardIndexer } = await import("@/lib/ens-history/leaderboard");
+    startLeaderboardIndexer();
+    // Hash the label dictionary in the background rather than inside the first request that needs it
+    const { loadLabelDictionary } = await import("@/lib/ens-history/labels");
+    loadLabelDictionary();
+  }
+}
@@ -0,0 +1,138 @@
+import type { GraphQLClient } from "graphql-request";
+import type { PublicClient } from "viem";
+import { namehash } from "viem/ens";
+import type { ENSBatchResult, ENSHistory } from "@/types/ens";
+import { getCache, type CacheStore } from "./cache";
+import { ENSHistoryError } from "./errors";
+import { buildENSHistory } from "./history";
+import { decodeName, learnLabels, loadLabels } from "./labels";
+import { normalizeENSName } from "./names";
+import { ZERO_ADDRESS } from "./normalize";
+import { getEffectiveOwner, getOwnershipEvents } from "./roles";
+import { createSubgraphClient, fetchDomainsHistory, type DomainHistoryData } from "./subgraph";
+import {
+  alignTimestamps,
+  createRpcClient,
+  fetchBlockTimestamps,
+  resolveTransferTimestamps,
+} from "./timestamps";
+
+// Names resolved per round of combined queries; results are yielded after each round
+const BATCH_CHUNK_SIZE = 100;
+
+export interface GetENSHistoriesOptions {
+  subgraphClient?: GraphQLClient;
+  publicClient?: PublicClient | null; // Defaults to NEXT_PUBLIC_RPC_URL; null forces estimated timestamps
+  cache?: CacheStore | null; // Defaults to the ENS_CACHE store; null disables caching
+}
+
+const toErrorResult = (name: string, error: unknown): ENSBatchResult => {
+  if (error instanceof ENSHistoryError) return { name, error: error.message, status: error.status };
+  console.error(`Error fetching ENS history for ${name}:`, error);
+  return { name, error: error instanceof Error ? error.message : "Failed to fetch ENS history", status: 500 };
+};
+
+// Timestamps for every domain of a round, with each block fetched once across all of them
+async function resolveRoundTimestamps(
+  domains: DomainHistoryData[],
+  publicClient: PublicClient | null,
+  cache: CacheStore | null
+) {
+  const blockTimestamps = publicClient
+    ? await fetchBlockTimestamps(
+      publicClient,
+      domains.flatMap((data) => [
+        ...getOwnershipEvents(data).map((event) => event.blockNumber),
+        ...data.registrationEvents.map((event) => event.blockNumber),
+      ]),
+      cache
+    )
+    : null;
+
+  return Promise.all(
+    domains.map(async (data) => {
+      const events = getOwnershipEvents(data);
+      if (blockTimestamps) {
+        return {
+          timestamps: alignTimestamps(events, blockTimestamps),
+          registrationTimestamps: alignTimestamps(data.registrationEvents, blockTimestamps),
+        };
+      }
+      return {
+        timestamps: await resolveTransferTimestamps(events, null),
+        registrationTimestamps: await resolveTransferTimestamps(data.registrationEvents, null),
+      };
+    })
+  );
+}
+
+// Ownership histories of many names, in input order, yielded round by round
+// Domains, registrations and events of a whole round come from combined subgraph queries.
+// Histories go through the same pipeline as getENSHistory, without its per-name extras
+// (sale prices, registration payments, EFP profile) and without the RPC fallback.
+// Duplicate names are only looked up once; failures are reported per name and never thrown.
+export async function* getENSHistories(
+  names: string[],
+  options: GetENSHistoriesOptions = {}
+): AsyncGenerator<ENSBatchResult> {
+  const subgraphClient = options.subgraphClient ?? createSubgraphClient();
+  const publicClient = options.publicClient !== undefined ? options.publicClient : createRpcClient();
+  const cache = options.cache !== undefined ? options.cache : await getCache();
+
+  const seen = new Set<string>();
+  const queue: Array<{ input: string; name?: string; error?: unknown }> = [];
+  for (const input of names) {
+    try {
+      const name = normalizeENSName(input);
+      if (seen.has(name)) continue;
+      seen.add(name);
+      queue.push({ input, name });
+    } catch (error) {
+      queue.push({ input, error });
+    }
+  }
+
+  for (let i = 0; i < queue.length; i += BATCH_CHUNK_SIZE) {
+    const round = queue.slice(i, i + BATCH_CHUNK_SIZE);
+    const valid = round.filter((entry) => entry.name !== undefined);
+
+    // Domains that exist and have an owner, with their timestamps
+    let found: Array<{ name: string; data: DomainHistoryData }>;
+    let resolved: Awaited<ReturnType<typeof resolveRoundTimestamps>>;
+    try {
+      const domains = await fetchDomainsHistory(
+        subgraphClient,
+        valid.map((entry) => namehash(entry.name!))
+      );
+      const byId = new Map(domains.map((data) => [data.domain.id, data]));
+      found = valid.flatMap((entry) => {
+        const data = byId.get(namehash(entry.name!));
+        return data && getEffectiveOwner(data.domain) !== ZERO_ADDRESS ? [{ name: entry.name!, data }] : [];
+      });
+      resolved = await resolveRoundTimestamps(found.map((entry) => entry.data), publicClient, cache);
+      await loadLabels(found.map((entry) => entry.data.domain.name), cache);
+    } catch (error) {
+      // The whole round failed (rate limit, subgraph down) - report it on every name
+      for (const entry of round) yield toErrorResult(entry.name ?? entry.input, entry.error ?? error);
+      continue;
+    }
+
+    const histories = new Map<string, ENSHistory>();
+    found.forEach(({ name, data }, j) => {
+      learnLabels(name, data.domain.name);
+      const { timestamps, registrationTimestamps } = resolved[j];
+      histories.set(name, buildENSHistory(decodeName(data.domain.name), data, timestamps, registrationTimestamps));
+    });
+
+    for (const entry of round) {
+      if (entry.name === undefined) {
+        yield toErrorResult(entry.input, entry.error);
+        continue;
+      }
+      const history = histories.get(entry.name);
+      yield history
+        ? { name: entry.name, history }
+        : { name: entry.name, error: `ENS domain "${entry.name}" does not exist or has no owner`, status: 404 };
+    }
+  }
+}
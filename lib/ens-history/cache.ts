@@ -0,0 +1,143 @@
+// Key-value store behind the server-side caches (histories, block timestamps, leaderboard)
+// Values are strings; entries without a TTL never expire
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  getMany(keys: string[]): Promise<Array<string | null>>;
+  set(key: string, value: string, ttlMs?: number): Promise<void>;
+  setMany(entries: Array<[string, string]>): Promise<void>;
+}
+
+// Process-local LRU: the default, lost on restart
+export function createMemoryCache(maxEntries = 50_000): CacheStore {
+  const entries = new Map<string, { value: string; expiresAt?: number }>();
+
+  const read = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    entries.delete(key);
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) return null;
+    entries.set(key, entry); // Most recently used last
+    return entry.value;
+  };
+
+  const write = (key: string, value: string, ttlMs?: number) => {
+    entries.delete(key);
+    entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : undefined });
+    if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+  };
+
+  return {
+    get: async (key) => read(key),
+    getMany: async (keys) => keys.map(read),
+    set: async (key, value, ttlMs) => write(key, value, ttlMs),
+    setMany: async (items) => items.forEach(([key, value]) => write(key, value)),
+  };
+}
+
+// SQLite file, shared by every process on the machine and kept across restarts
+export async function createSqliteCache(path: string): Promise<CacheStore> {
+  const { default: Database } = await import("better-sqlite3");
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec("CREATE TABLE IF NOT EXISTS cache (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER)");
+
+  const select = db.prepare<[string, number], { value: string }>(
+    "SELECT value FROM cache WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)"
+  );
+  const upsert = db.prepare<[string, string, number | null]>(
+    "INSERT OR REPLACE INTO cache (key, value, expires_at) VALUES (?, ?, ?)"
+  );
+  const upsertMany = db.transaction((items: Array<[string, string]>) => {
+    for (const [key, value] of items) upsert.run(key, value, null);
+  });
+  const read = (key: string) => select.get(key, Date.now())?.value ?? null;
+
+  return {
+    get: async (key) => read(key),
+    getMany: async (keys) => keys.map(read),
+    set: async (key, value, ttlMs) => {
+      upsert.run(key, value, ttlMs ? Date.now() + ttlMs : null);
+    },
+    setMany: async (items) => {
+      upsertMany(items);
+    },
+  };
+}
+
+// Redis or any server speaking its protocol (Valkey, KeyDB, Dragonfly, ...)
+export async function createRedisCache(url: string): Promise<CacheStore> {
+  const { default: Redis } = await import("ioredis");
+  const redis = new Redis(url, { maxRetriesPerRequest: 2 });
+
+  return {
+    get: (key) => redis.get(key),
+    getMany: async (keys) => (keys.length > 0 ? redis.mget(...keys) : []),
+    set: async (key, value, ttlMs) => {
+      if (ttlMs) await redis.set(key, value, "PX", ttlMs);
+      else await redis.set(key, value);
+    },
+    setMany: async (items) => {
+      if (items.length > 0) await redis.mset(items.flat());
+    },
+  };
+}
+
+// A cache is an optimization: read failures count as misses and write failures are only logged
+const tolerant = (store: CacheStore): CacheStore => {
+  const attempt = async <T>(operation: () => Promise<T>, fallback: T): Promise<T> => {
+    try {
+      return await operation();
+    } catch (error) {
+      console.error("Cache error:", error);
+      return fallback;
+    }
+  };
+  return {
+    get: (key) => attempt(() => store.get(key), null),
+    getMany: (keys) => attempt(() => store.getMany(keys), keys.map(() => null)),
+    set: (key, value, ttlMs) => attempt(() => store.set(key, value, ttlMs), undefined),
+    setMany: (items) => attempt(() => store.setMany(items), undefined),
+  };
+};
+
+const caches = new Map<string, Promise<CacheStore | null>>();
+
+const openCache = async (config: string): Promise<CacheStore | null> => {
+  if (config === "none") return null;
+  if (config === "memory") return createMemoryCache();
+  if (config.startsWith("sqlite:")) return createSqliteCache(config.slice("sqlite:".length));
+  if (config.startsWith("redis://") || config.startsWith("rediss://")) return createRedisCache(config);
+  console.error(`Unknown ENS_CACHE "${config}", using the in-memory cache`);
+  return createMemoryCache();
+};
+
+// The cache configured by ENS_CACHE: "memory" (default), "sqlite:<file>", "redis://..." or "none"
+// Opened once per process; null when disabled or when the store can't be opened
+export const getCache = (config = process.env.ENS_CACHE || "memory"): Promise<CacheStore | null> => {
+  if (!caches.has(config)) {
+    caches.set(
+      config,
+      openCache(config)
+        .then((store) => store && tolerant(store))
+        .catch((error) => {
+          console.error(`Failed to open cache "${config}":`, error);
+          return null;
+        })
+    );
+  }
+  return caches.get(config)!;
+};
+
+// JSON helpers for structured entries
+export const readCached = async <T>(cache: CacheStore, key: string): Promise<T | null> => {
+  const value = await cache.get(key);
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+};
+
+export const writeCached = (cache: CacheStore, key: string, value: unknown, ttlMs?: number) =>
+  cache.set(key, JSON.stringify(value), ttlMs);
@@ -0,0 +1,58 @@
+import type { ENSOwner } from "@/types/ens";
+
+// Consolidate stage: sort ownership periods, merge consecutive periods held by the same address
+// (e.g. rapid transfers) and drop entries with invalid dates or zero/negative duration
+export function consolidateOwners(owners: ENSOwner[]): ENSOwner[] {
+  // Sort by date (oldest first)
+  const sorted = [...owners].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+  const consolidated: ENSOwner[] = [];
+  for (const current of sorted) {
+    const last = consolidated[consolidated.length - 1];
+
+    // Different owner (or first entry) - add as new entry
+    if (!last || last.address.toLowerCase() !== current.address.toLowerCase()) {
+      consolidated.push({ ...current });
+      continue;
+    }
+
+    // Same owner - extend the last period to current's end date, keeping the earlier start date
+    if (current.endDate) {
+      // Use the later end date if both have end dates
+      if (!last.endDate || current.endDate > last.endDate) {
+        last.endDate = current.endDate;
+        last.endDateEstimated = current.endDateEstimated;
+      }
+    } else {
+      // Current has no end date, remove end date from last (it's ongoing)
+      last.endDate = undefined;
+      last.endDateEstimated = undefined;
+    }
+  }
+
+  return consolidated.filter((owner) => {
+    if (isNaN(owner.startDate.getTime())) return false;
+    if (!owner.endDate) {
+      return true; // Keep entries without end date (ongoing)
+    }
+    if (isNaN(owner.endDate.getTime())) return false;
+    return owner.endDate.getTime() - owner.startDate.getTime() > 0; // Only keep entries with positive duration
+  });
+}
+
+// Count ownership changes in a block-ordered list of owner addresses
+// Consecutive repeats of the same owner are consolidated, the initial owner isn't a change
+export function countOwnershipChanges(ownerAddresses: string[]): number {
+  let ownershipChangeCount = 0;
+  let previousOwner: string | null = null;
+
+  for (const address of ownerAddresses) {
+    const currentOwner = address.toLowerCase();
+    if (previousOwner !== null && currentOwner !== previousOwner) {
+      ownershipChangeCount++;
+    }
+    previousOwner = currentOwner;
+  }
+
+  return ownershipChangeCount;
+}
@@ -0,0 +1,41 @@
+import type { ENSOwner } from "@/types/ens";
+
+export type EFPProfile = Pick<ENSOwner, "avatar" | "ensName" | "followersCount" | "followingCount">;
+
+// Fetch EFP data for an address (account info + stats)
+// Fails silently with an empty profile - this is enrichment only
+export async function fetchEFPProfile(address: string): Promise<EFPProfile> {
+  const profile: EFPProfile = {};
+  try {
+    // Fetch account and stats in parallel
+    const [accountResponse, statsResponse] = await Promise.all([
+      fetch(`https://api.ethfollow.xyz/api/v1/users/${address}/account`),
+      fetch(`https://api.ethfollow.xyz/api/v1/users/${address}/stats`),
+    ]);
+
+    // Process account data (avatar, ENS name)
+    if (accountResponse.ok) {
+      const accountData = await accountResponse.json();
+      if (accountData.ens?.avatar) {
+        profile.avatar = accountData.ens.avatar;
+      }
+      if (accountData.ens?.name) {
+        profile.ensName = accountData.ens.name;
+      }
+    }
+
+    // Process stats data (followers, following)
+    if (statsResponse.ok) {
+      const statsData = await statsResponse.json();
+      if (statsData.followers_count !== undefined) {
+        profile.followersCount = statsData.followers_count;
+      }
+      if (statsData.following_count !== undefined) {
+        profile.followingCount = statsData.following_count;
+      }
+    }
+  } catch (error) {
+    console.error("Error fetching EFP data:", error);
+  }
+  return profile;
+}
@@ -0,0 +1,19 @@
+// Error raised by the history pipeline, carrying the HTTP status the API routes should respond with
+export class ENSHistoryError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = "ENSHistoryError";
+    this.status = status;
+  }
+}
+
+export const RATE_LIMIT_MESSAGE =
+  "Rate limit exceeded. The Graph API is rate-limiting requests. Please wait a moment and try again, or check your API key configuration.";
+
+// graphql-request attaches the HTTP response to its errors
+export const isRateLimitError = (error: unknown): boolean => {
+  const response = (error as { response?: { status?: number } } | null)?.response;
+  return response?.status === 429;
+};
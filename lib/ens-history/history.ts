@@ -0,0 +1,229 @@
+import type { GraphQLClient } from "graphql-request";
+import type { PublicClient } from "viem";
+import type { ENSHistory, ENSOwner, ENSRoleChange } from "@/types/ens";
+import { getCache, type CacheStore } from "./cache";
+import { consolidateOwners } from "./consolidate";
+import { ENSHistoryError } from "./errors";
+import { learnLabels, resolveName } from "./labels";
+import { getLapses, getLifecycle } from "./lifecycle";
+import { normalizeENSName } from "./names";
+import { mergeRegistration, normalizeTransfers, ZERO_ADDRESS } from "./normalize";
+import { loadPriceTable, withUsdValue, type PriceTable } from "./prices";
+import { fetchOwnerProfiles } from "./profiles";
+import {
+  getCurrentRoles,
+  getEffectiveOwner,
+  getEffectiveTransfers,
+  getOwnershipEvents,
+  getRoleChanges,
+} from "./roles";
+import { fetchRegistrationPayments, getRegistrationEvents, withPayment } from "./registrations";
+import { fetchSales, withSale } from "./sales";
+import { fetchDomainHistoryFromRpc } from "./rpc";
+import { splitCurrentOwner } from "./split";
+import {
+  createSubgraphClient,
+  fetchDomainHistory,
+  fetchDomainHistoryCached,
+  parseSubgraphTimestamp,
+  type DomainHistoryData,
+} from "./subgraph";
+import {
+  alignTimestamps,
+  createRpcClient,
+  resolveTransferTimestamps,
+  type BlockTimestamp,
+} from "./timestamps";
+
+// Tag each period with the roles that changed in the transaction that started it
+const withChangedRoles = (owner: ENSOwner, roleChanges: ENSRoleChange[]): ENSOwner => {
+  if (!owner.transactionHash) return owner;
+  const changedRoles = [
+    ...new Set(
+      roleChanges
+        .filter((change) => change.transactionHash === owner.transactionHash)
+        .map((change) => change.role)
+    ),
+  ];
+  return changedRoles.length > 0 ? { ...owner, changedRoles } : owner;
+};
+
+// First registration date, falling back to the domain's creation date
+const getRegistrationDate = (data: DomainHistoryData): Date | undefined =>
+  (data.registrations.length > 0 ? parseSubgraphTimestamp(data.registrations[0].registrationDate) : null) ??
+  parseSubgraphTimestamp(data.domain.createdAt) ??
+  undefined;
+
+// Pure pipeline: roles -> normalize -> merge registration -> consolidate -> split -> lifecycle
+// `timestamps` must be aligned with getOwnershipEvents(data) and `registrationTimestamps` with
+// data.registrationEvents (checkpoint-based estimates by default)
+export function buildENSHistory(
+  name: string,
+  data: DomainHistoryData,
+  timestamps: BlockTimestamp[],
+  registrationTimestamps: BlockTimestamp[] = alignTimestamps(data.registrationEvents, new Map())
+): ENSHistory {
+  const { domain, registrations } = data;
+  const events = getOwnershipEvents(data);
+  const roleChanges = getRoleChanges(events, timestamps);
+  const effective = getEffectiveTransfers(events, timestamps);
+  const effectiveOwner = getEffectiveOwner(domain);
+
+  const normalized = normalizeTransfers(effective.transfers, effective.timestamps);
+  const merged = mergeRegistration(normalized.owners, registrations, effectiveOwner);
+  const consolidated = consolidateOwners(merged);
+  const split = splitCurrentOwner(consolidated, domain, registrations);
+  const { expiryDate } = split;
+  const roles = getCurrentRoles(domain);
+  const registrationEvents = getRegistrationEvents(data.registrationEvents, registrationTimestamps);
+
+  return {
+    name,
+    domain: {
+      name: domain.name,
+      node: domain.id,
+      owner: effectiveOwner,
+      ...roles,
+      registrationDate: getRegistrationDate(data),
+      expiryDate,
+    },
+    owners: split.owners.map((owner) => withChangedRoles(owner, roleChanges)),
+    currentOwner: withChangedRoles(split.currentOwner, roleChanges),
+    expiryDate,
+    burnEvents: normalized.burnEvents,
+    roleChanges,
+    registrationEvents,
+    lifecycle: expiryDate ? getLifecycle(expiryDate) : undefined,
+    lapses: getLapses(registrationEvents),
+    truncated: data.truncated,
+  };
+}
+
+export interface GetENSHistoryOptions {
+  subgraphClient?: GraphQLClient;
+  publicClient?: PublicClient | null; // Defaults to NEXT_PUBLIC_RPC_URL; null forces estimated timestamps
+  includeProfile?: boolean; // Fetch primary names, avatars and EFP stats for every owner (default true)
+  includeSales?: boolean; // Look up marketplace sale prices, requires an RPC client (default true)
+  priceTable?: PriceTable | null; // Defaults to the ENS_PRICE_TABLE file; null skips USD values
+  source?: HistorySource; // Defaults to ENS_HISTORY_SOURCE
+  cache?: CacheStore | null; // Defaults to the ENS_CACHE store; null disables caching
+}
+
+// Where the raw history comes from: the subgraph, or event logs read through the RPC
+export type HistorySource = "subgraph" | "rpc";
+
+export const getHistorySource = (): HistorySource =>
+  process.env.ENS_HISTORY_SOURCE === "rpc" ? "rpc" : "subgraph";
+
+// Fetch stage for the chosen source. The subgraph falls back to RPC logs when it's rate-limited
+// or unreachable and an RPC client is configured; its 404s are trusted.
+async function fetchHistoryData(
+  name: string,
+  source: HistorySource,
+  subgraphClient: GraphQLClient,
+  publicClient: PublicClient | null,
+  cache: CacheStore | null
+): Promise<DomainHistoryData | null> {
+  if (source === "rpc") {
+    if (!publicClient) {
+      throw new ENSHistoryError("ENS_HISTORY_SOURCE=rpc requires NEXT_PUBLIC_RPC_URL", 500);
+    }
+    return fetchDomainHistoryFromRpc(publicClient, name);
+  }
+
+  try {
+    return cache
+      ? await fetchDomainHistoryCached(subgraphClient, name, cache)
+      : await fetchDomainHistory(subgraphClient, name);
+  } catch (error) {
+    if (!publicClient || (error instanceof ENSHistoryError && error.status !== 429)) throw error;
+    console.error(`Subgraph unavailable for ${name}, falling back to RPC logs:`, error);
+    return fetchDomainHistoryFromRpc(publicClient, name);
+  }
+}
+
+// Fetch and build the full ownership history of an ENS name
+// Throws ENSHistoryError with status 404 when the domain doesn't exist and 429 when rate-limited
+// (only without an RPC client to fall back on)
+export async function getENSHistory(
+  ensName: string,
+  options: GetENSHistoryOptions = {}
+): Promise<ENSHistory> {
+  const name = normalizeENSName(ensName);
+  const subgraphClient = options.subgraphClient ?? createSubgraphClient();
+  const publicClient = options.publicClient !== undefined ? options.publicClient : createRpcClient();
+
+  const cache = options.cache !== undefined ? options.cache : await getCache();
+
+  const data = await fetchHistoryData(
+    name,
+    options.source ?? getHistorySource(),
+    subgraphClient,
+    publicClient,
+    cache
+  );
+
+  // Check if domain exists
+  if (!data) {
+    throw new ENSHistoryError(`ENS domain "${name}" does not exist`, 404);
+  }
+
+  // If no owner, domain doesn't exist
+  if (!data.domain.owner || getEffectiveOwner(data.domain) === ZERO_ADDRESS) {
+    throw new ENSHistoryError(
+      `Sorry, we are unsure of this error. "${name}" may not exist or may have no owner`,
+      404
+    );
+  }
+
+  // Labels the subgraph only knows by hash: learn them from the typed name, or resolve them for display
+  learnLabels(name, data.domain.name);
+  const displayName = await resolveName(name, { subgraphClient, publicClient });
+
+  const [timestamps, registrationTimestamps] = await Promise.all([
+    resolveTransferTimestamps(getOwnershipEvents(data), publicClient, cache),
+    resolveTransferTimestamps(data.registrationEvents, publicClient, cache),
+  ]);
+  const history = buildENSHistory(displayName, data, timestamps, registrationTimestamps);
+
+  if (publicClient && options.includeSales !== false) {
+    const periods = history.currentOwner ? [...history.owners, history.currentOwner] : history.owners;
+    const sales = await fetchSales(
+      publicClient,
+      name,
+      periods.map((owner) => owner.transactionHash),
+      cache
+    );
+    const priceTable = options.priceTable !== undefined ? options.priceTable : loadPriceTable();
+    const annotate = (owner: ENSOwner) => {
+      const withPrice = withSale(owner, sales);
+      return priceTable ? withUsdValue(withPrice, priceTable) : withPrice;
+    };
+    history.owners = history.owners.map(annotate);
+    history.currentOwner = history.currentOwner && annotate(history.currentOwner);
+  }
+
+  if (publicClient && history.registrationEvents.length > 0) {
+    const payments = await fetchRegistrationPayments(
+      publicClient,
+      name,
+      history.registrationEvents.map((event) => event.transactionHash)
+    );
+    history.registrationEvents = history.registrationEvents.map((event) => withPayment(event, payments));
+    // Re-derive lapses so they pick up the premiums paid
+    history.lapses = getLapses(history.registrationEvents);
+  }
+
+  if (options.includeProfile !== false) {
+    const owners = history.currentOwner ? [...history.owners, history.currentOwner] : history.owners;
+    const profiles = await fetchOwnerProfiles(
+      owners.map((owner) => owner.address).filter((address) => address !== ZERO_ADDRESS),
+      { publicClient, cache }
+    );
+    const withProfile = (owner: ENSOwner) => ({ ...owner, ...profiles.get(owner.address.toLowerCase()) });
+    history.owners = history.owners.map(withProfile);
+    history.currentOwner = history.currentOwner && withProfile(history.currentOwner);
+  }
+
+  return history;
+}
@@ -0,0 +1,160 @@
+export { getENSHistories, type GetENSHistoriesOptions } from "./batch";
+export {
+  createMemoryCache,
+  createRedisCache,
+  createSqliteCache,
+  getCache,
+  readCached,
+  writeCached,
+  type CacheStore,
+} from "./cache";
+export { consolidateOwners, countOwnershipChanges } from "./consolidate";
+export { fetchEFPProfile, type EFPProfile } from "./efp";
+export { ENSHistoryError, isRateLimitError, RATE_LIMIT_MESSAGE } from "./errors";
+export {
+  getIndexStatus,
+  getLeaderboardIndex,
+  indexSales,
+  indexTransfers,
+  openLeaderboardIndex,
+  startLeaderboardIndexer,
+  type LeaderboardIndex,
+  type LeaderboardIndexStatus,
+} from "./leaderboard";
+export { isMarketplaceContract, MARKETPLACE_CONTRACTS } from "./marketplaces";
+export {
+  getLapses,
+  getLifecycle,
+  getLifecycleStatus,
+  getLifecycleTransitions,
+  getPremiumPrice,
+  GRACE_PERIOD_MS,
+  PREMIUM_PERIOD_MS,
+  START_PREMIUM_USD,
+} from "./lifecycle";
+export {
+  beautifyENSName,
+  getEncodedLabelhash,
+  isEncodedLabel,
+  isNormalizedENSName,
+  MAX_BATCH_NAMES,
+  normalizeENSName,
+} from "./names";
+export {
+  decodeName,
+  learnLabels,
+  loadLabelDictionary,
+  loadLabels,
+  lookupLabel,
+  rememberLabel,
+  resolveLabel,
+  resolveName,
+  submitLabelGuess,
+  type ResolveLabelOptions,
+} from "./labels";
+export { isSameDay, mergeRegistration, normalizeTransfers, ZERO_ADDRESS } from "./normalize";
+export { getUsdValue, loadPriceTable, withUsdValue, type PriceTable } from "./prices";
+export { fetchOwnerProfiles, PROFILE_BUDGET_MS, type FetchOwnerProfilesOptions } from "./profiles";
+export {
+  fetchRegistrationPayments,
+  getRegistrationEvents,
+  withPayment,
+  type RegistrationPayment,
+} from "./registrations";
+export {
+  getCurrentRoles,
+  getEffectiveOwner,
+  getEffectiveTransfers,
+  getLogIndex,
+  getOwnershipEvents,
+  getRoleChanges,
+  NAME_WRAPPER_ADDRESS,
+  resolveEffectiveOwner,
+  ROLE_LABELS,
+  type OwnershipEvent,
+} from "./roles";
+export { BASE_REGISTRAR_ADDRESS, fetchSales, parseSaleLogs, withSale } from "./sales";
+export { getPeriodAt, getRecordsAt, getStatusAt, parseAt, type RecordsAt } from "./pointInTime";
+export {
+  ADDRESS_LEADERBOARD_CATEGORIES,
+  ADDRESS_LEADERBOARD_UNITS,
+  DEFAULT_FLIP_DAYS,
+  getAddressRanking,
+  getChurnScore,
+  getClub,
+  getDomainRanking,
+  LEADERBOARD_CATEGORIES,
+  LEADERBOARD_DEFAULT_LIMIT,
+  LEADERBOARD_MAX_LIMIT,
+  LEADERBOARD_UNITS,
+  LEADERBOARD_WINDOWS,
+  MIN_HOLDINGS_FOR_AVERAGE,
+  NAME_CLUBS,
+  parseLeaderboardParams,
+  type AddressLeaderboardCategory,
+  type AddressLeaderboardEntry,
+  type AddressLeaderboardQuery,
+  type ChurnScore,
+  type LeaderboardCategory,
+  type LeaderboardEntry,
+  type LeaderboardQuery,
+  type LeaderboardUnit,
+  type LeaderboardWindow,
+  type NameClub,
+} from "./rankings";
+export { getRecordsHistory, type GetRecordsHistoryOptions } from "./records";
+export {
+  serializeBatchResult,
+  serializeHistory,
+  serializeOwner,
+  serializePortfolio,
+  serializeRecordsHistory,
+  serializeSnapshot,
+  serializeSubdomainTree,
+} from "./serialize";
+export { getENSSnapshot } from "./snapshot";
+export { getSubdomains, MAX_SUBDOMAINS, type GetSubdomainsOptions } from "./subdomains";
+export { getExpiryDate, splitCurrentOwner } from "./split";
+export {
+  buildENSHistory,
+  getENSHistory,
+  getHistorySource,
+  type GetENSHistoryOptions,
+  type HistorySource,
+} from "./history";
+export { ENS_REGISTRY_ADDRESS, fetchDomainHistoryFromRpc, getLogsInChunks } from "./rpc";
+export {
+  getAddressPortfolio,
+  getHoldings,
+  resolveAddress,
+  type GetAddressPortfolioOptions,
+} from "./portfolio";
+export {
+  createSubgraphClient,
+  fetchAllPages,
+  fetchAllTransfers,
+  fetchDomain,
+  fetchDomainHistory,
+  fetchDomainHistoryCached,
+  fetchDomainsHistory,
+  fetchIndexedBlock,
+  fetchOwnershipEvents,
+  fetchRegistrationEvents,
+  getSubgraphUrl,
+  parseSubgraphTimestamp,
+  requestSubgraph,
+  type DomainHistoryData,
+  type SubgraphDomain,
+  type SubgraphRegistration,
+  type SubgraphRegistrationEvent,
+  type SubgraphTransfer,
+} from "./subgraph";
+export {
+  alignTimestamps,
+  createRpcClient,
+  estimateTimestampFromBlock,
+  estimateTimestampToHead,
+  fetchBlockTimestamps,
+  resolveTransferTimestamps,
+  type BlockTimestamp,
+} from "./timestamps";
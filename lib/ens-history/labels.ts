@@ -0,0 +1,230 @@
+import { readFile } from "fs/promises";
+import type { GraphQLClient } from "graphql-request";
+import { parseEventLogs, type Hash, type PublicClient } from "viem";
+import { labelhash } from "viem/ens";
+import { getCache, type CacheStore } from "./cache";
+import { ENSHistoryError } from "./errors";
+import { getEncodedLabelhash, isEncodedLabel, isNormalizedENSName } from "./names";
+import { CONTROLLER_EVENTS_ABI } from "./registrations";
+import { requestSubgraph } from "./subgraph";
+
+// Controller registrations of a .eth 2LD; the Registration entity's id is the labelhash
+const GET_NAME_REGISTERED_TRANSACTIONS = `
+  query GetNameRegisteredTransactions($labelhash: String!) {
+    nameRegistereds(where: { registration: $labelhash }, first: 5) {
+      transactionID
+    }
+  }
+`;
+
+// Labels resolved so far (from any source), keyed by labelhash
+// This is the in-process copy decodeName reads synchronously; confirmed labels are also written to
+// the shared cache (ENS_CACHE, no TTL) so they survive restarts and reach every instance - see loadLabels
+const knownLabels = new Map<string, string>();
+const dictionaries = new Map<string, Map<string, string>>();
+const dictionaryLoads = new Map<string, Promise<Map<string, string> | null>>();
+
+const labelKey = (hash: string) => `label:${hash}`;
+
+// Dictionary lines hashed between yields to the event loop
+const DICTIONARY_SLICE = 5000;
+// Precomputed dictionary line: "<labelhash> <label>" (or comma-separated)
+const PRECOMPUTED_LINE = /^(0x[0-9a-fA-F]{64})[\s,]+(\S+)$/;
+
+const isLabelOf = (hash: string, label: string) =>
+  !label.includes(".") && isNormalizedENSName(label) && labelhash(label) === hash;
+
+// Keep a checked label here and in the shared cache
+async function saveLabel(hash: string, label: string): Promise<void> {
+  if (knownLabels.get(hash) === label) return;
+  knownLabels.set(hash, label);
+  const cache = await getCache();
+  if (cache) await cache.set(labelKey(hash), label);
+}
+
+// Cache a label for a labelhash, after checking keccak256(label) matches
+// Only normalized single labels are kept, so decoded names can be looked up again
+// Saving to the shared cache happens in the background
+export const rememberLabel = (hash: string, label: string): boolean => {
+  const key = hash.toLowerCase();
+  if (!isLabelOf(key, label)) return false;
+  saveLabel(key, label).catch((error) => console.error(`Failed to save label for ${key}:`, error));
+  return true;
+};
+
+// Copy the labels confirmed so far (by any instance, in any run) for the encoded labels of `names`
+// from the shared cache into this process. Call before decodeName on names read from the subgraph
+export async function loadLabels(
+  names: Iterable<string | null | undefined>,
+  cache?: CacheStore | null
+): Promise<void> {
+  const hashes = new Set<string>();
+  for (const name of names) {
+    for (const label of name?.split(".") ?? []) {
+      const hash = getEncodedLabelhash(label);
+      if (hash && !knownLabels.has(hash)) hashes.add(hash);
+    }
+  }
+  if (hashes.size === 0) return;
+
+  const store = cache !== undefined ? cache : await getCache();
+  if (!store) return;
+  const missing = [...hashes];
+  const labels = await store.getMany(missing.map(labelKey));
+  missing.forEach((hash, i) => {
+    const label = labels[i];
+    if (label && isLabelOf(hash, label)) knownLabels.set(hash, label);
+  });
+}
+
+// Read and hash a dictionary a slice at a time, so a large rainbow table doesn't block requests
+async function readDictionary(path: string): Promise<Map<string, string> | null> {
+  try {
+    const lines = (await readFile(path, "utf8")).split("\n");
+    const dictionary = new Map<string, string>();
+    for (let i = 0; i < lines.length; i += DICTIONARY_SLICE) {
+      for (const line of lines.slice(i, i + DICTIONARY_SLICE)) {
+        const entry = line.trim();
+        const precomputed = PRECOMPUTED_LINE.exec(entry);
+        // Precomputed pairs are checked on use, by rememberLabel
+        if (precomputed) dictionary.set(precomputed[1].toLowerCase(), precomputed[2]);
+        else if (entry && !entry.includes(".")) dictionary.set(labelhash(entry), entry);
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    return dictionary;
+  } catch (error) {
+    console.error(`Failed to load label dictionary from ${path}:`, error);
+    return null;
+  }
+}
+
+// Load the label dictionary configured by ENS_LABEL_DICTIONARY: a text file with one label per line
+// (a rainbow table of known words) or "<labelhash> <label>" pairs computed ahead of time.
+// Loaded once per process, in the background (started when the server boots); null when unset or unreadable
+export const loadLabelDictionary = (
+  path = process.env.ENS_LABEL_DICTIONARY
+): Promise<Map<string, string> | null> => {
+  if (!path) return Promise.resolve(null);
+  if (!dictionaryLoads.has(path)) {
+    dictionaryLoads.set(
+      path,
+      readDictionary(path).then((dictionary) => {
+        if (dictionary) dictionaries.set(path, dictionary);
+        return dictionary;
+      })
+    );
+  }
+  return dictionaryLoads.get(path)!;
+};
+
+// The configured dictionary if it has finished loading; starts loading it otherwise
+const getLoadedDictionary = (path = process.env.ENS_LABEL_DICTIONARY): Map<string, string> | null => {
+  if (!path) return null;
+  if (!dictionaryLoads.has(path)) loadLabelDictionary(path);
+  return dictionaries.get(path) ?? null;
+};
+
+// Offline lookup: known labels, then the dictionary (once loaded)
+export const lookupLabel = (hash: string): string | undefined => {
+  const key = hash.toLowerCase();
+  const cached = knownLabels.get(key);
+  if (cached) return cached;
+  const label = getLoadedDictionary()?.get(key);
+  if (label && rememberLabel(key, label)) return label;
+  return undefined;
+};
+
+// Replace every encoded label we can resolve offline; unknown ones stay encoded
+export const decodeName = (name: string): string =>
+  name
+    .split(".")
+    .map((label) => {
+      const hash = getEncodedLabelhash(label);
+      return hash ? (lookupLabel(hash) ?? label) : label;
+    })
+    .join(".");
+
+// When a name typed in plain text was indexed under encoded labels, the typed labels are the answer
+export const learnLabels = (typedName: string, subgraphName: string) => {
+  const typed = typedName.split(".");
+  const indexed = subgraphName.split(".");
+  if (typed.length !== indexed.length) return;
+  indexed.forEach((label, i) => {
+    const hash = getEncodedLabelhash(label);
+    if (hash && !isEncodedLabel(typed[i])) rememberLabel(hash, typed[i]);
+  });
+};
+
+// Read the label from the controller's NameRegistered event (its `name` is the plain-text label)
+async function fetchRegisteredLabel(
+  hash: Hash,
+  subgraphClient: GraphQLClient,
+  publicClient: PublicClient
+): Promise<string | undefined> {
+  const data = await requestSubgraph<{ nameRegistereds: Array<{ transactionID: string }> }>(
+    subgraphClient,
+    GET_NAME_REGISTERED_TRANSACTIONS,
+    { labelhash: hash }
+  );
+
+  for (const { transactionID } of data.nameRegistereds) {
+    const receipt = await publicClient
+      .getTransactionReceipt({ hash: transactionID as Hash })
+      .catch(() => null);
+    if (!receipt) continue;
+
+    for (const log of parseEventLogs({ abi: CONTROLLER_EVENTS_ABI, logs: receipt.logs })) {
+      if (log.eventName !== "NameRegistered" || log.topics[1] !== hash) continue;
+      // The 2025 controller calls the string `label` (and the hash `labelhash`), older ones `name`
+      const label = "labelhash" in log.args ? log.args.label : log.args.name;
+      if (rememberLabel(hash, label)) return label;
+    }
+  }
+  return undefined;
+}
+
+export interface ResolveLabelOptions {
+  subgraphClient: GraphQLClient;
+  publicClient: PublicClient | null; // Without one only the cache and the dictionary are used
+}
+
+// Resolve a labelhash to its label: cache, dictionary, then the NameRegistered event of its registration
+// Best effort: lookup failures (including a rate-limited subgraph) leave the label unresolved
+export async function resolveLabel(hash: Hash, options: ResolveLabelOptions): Promise<string | undefined> {
+  const known = lookupLabel(hash);
+  if (known || !options.publicClient) return known;
+  try {
+    return await fetchRegisteredLabel(hash, options.subgraphClient, options.publicClient);
+  } catch (error) {
+    console.error(`Error resolving label ${hash}:`, error);
+    return undefined;
+  }
+}
+
+// Async counterpart of decodeName that also looks registrations up on-chain
+export async function resolveName(name: string, options: ResolveLabelOptions): Promise<string> {
+  await loadLabels([name]);
+  const labels = await Promise.all(
+    name.split(".").map(async (label) => {
+      const hash = getEncodedLabelhash(label);
+      return hash ? ((await resolveLabel(hash, options)) ?? label) : label;
+    })
+  );
+  return labels.join(".");
+}
+
+// Check a user-submitted guess for an encoded label; a correct guess is saved for everyone
+// Throws ENSHistoryError(400) when `encoded` isn't an encoded label and (422) when the guess doesn't match
+export async function submitLabelGuess(encoded: string, guess: string): Promise<string> {
+  const hash = getEncodedLabelhash(encoded) ?? getEncodedLabelhash(`[${encoded.replace(/^0x/i, "")}]`);
+  if (!hash) {
+    throw new ENSHistoryError(`"${encoded}" is not a labelhash`, 400);
+  }
+  const label = guess.trim();
+  if (!isLabelOf(hash, label)) {
+    throw new ENSHistoryError(`"${label}" does not match ${hash}`, 422);
+  }
+  await saveLabel(hash, label);
+  return label;
+}
@@ -0,0 +1,554 @@
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import type { Database } from "better-sqlite3";
+import type { GraphQLClient } from "graphql-request";
+import type { Hash, PublicClient } from "viem";
+import type { ENSOwnerRole } from "@/types/ens";
+import { ENSHistoryError } from "./errors";
+import { decodeName, loadLabels } from "./labels";
+import { getUsdValue, loadPriceTable } from "./prices";
+import { getClub } from "./rankings";
+import { getLogIndex, resolveEffectiveOwner } from "./roles";
+import { parseSaleLogs } from "./sales";
+import { createSubgraphClient, requestSubgraph, TRANSFERS_PAGE_SIZE } from "./subgraph";
+import { createRpcClient, estimateTimestampToHead } from "./timestamps";
+
+// Event streams the index walks: the three ownership roles, and registrations
+type IndexStream = ENSOwnerRole | "registration";
+
+// Subgraph entity and selection of each stream
+const STREAMS: Record<IndexStream, { entity: string; fields: string }> = {
+  manager: { entity: "transfers", fields: "domain { id name } owner { id }" },
+  registrant: { entity: "nameTransferreds", fields: "registration { domain { id name } } newOwner { id }" },
+  wrappedOwner: { entity: "wrappedTransfers", fields: "domain { id name } owner { id }" },
+  registration: { entity: "nameRegistereds", fields: "registration { domain { id name } } registrant { id }" },
+};
+
+// One page of a stream, in block order from `$fromBlock` (inclusive)
+const streamPageQuery = (stream: IndexStream) => `
+  query GetStreamPage($fromBlock: Int!, $first: Int!) {
+    rows: ${STREAMS[stream].entity}(
+      first: $first
+      where: { blockNumber_gte: $fromBlock }
+      orderBy: blockNumber
+      orderDirection: asc
+    ) {
+      id
+      blockNumber
+      transactionID
+      ${STREAMS[stream].fields}
+    }
+  }
+`;
+
+// The events of one block, paginated by id - for blocks with more events than a page
+const streamBlockQuery = (stream: IndexStream) => `
+  query GetStreamBlock($block: Int!, $cursor: String!, $first: Int!) {
+    rows: ${STREAMS[stream].entity}(
+      first: $first
+      where: { blockNumber: $block, id_gt: $cursor }
+      orderBy: id
+      orderDirection: asc
+    ) {
+      id
+      blockNumber
+      transactionID
+      ${STREAMS[stream].fields}
+    }
+  }
+`;
+
+const GET_HEAD = `
+  query GetHead {
+    _meta {
+      block {
+        number
+        timestamp
+      }
+    }
+  }
+`;
+
+interface StreamRow {
+  id: string;
+  blockNumber: string;
+  transactionID: string;
+  domain?: { id: string; name: string | null };
+  registration?: { domain: { id: string; name: string | null } };
+  owner?: { id: string };
+  newOwner?: { id: string };
+  registrant?: { id: string };
+}
+
+interface IndexEvent {
+  stream: IndexStream;
+  domainId: string;
+  name: string | null;
+  blockNumber: number;
+  logIndex: number;
+  transactionID: string;
+  address: string;
+}
+
+interface SubgraphHead {
+  blockNumber: number;
+  timestamp: number; // Unix seconds
+}
+
+// Bumped whenever the schema or what's indexed changes; older files are rebuilt from scratch
+const INDEX_VERSION = 2;
+
+// Pages walked per indexer run before yielding (up to 1000 events per stream each)
+const PAGES_PER_RUN = 50;
+// Ownership changes checked for a sale per run, one receipt each (one JSON-RPC batch)
+const SALES_PER_RUN = 100;
+// Pause between runs while catching up, and between polls once caught up
+const CATCH_UP_PAUSE_MS = 1000;
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+// Reverse records are never ranked and make up much of the transfer list
+const isReverseRecord = (name: string | null) => !!name && name.endsWith(".addr.reverse");
+
+// Local store of every ownership event, reduced to changes of effective owner (SQLite, one file)
+// - domains: current role holders and effective owner, and per-domain totals
+// - ownership_changes: one row per change of effective owner (the first owner included), with the
+//   date (estimated from the block), when the holding it started ended, and the sale if there was one
+// - registrations: every registration, flagged when the name had been registered before
+// - meta: the block cursor the walk resumes from, the sales cursor and running totals
+export interface LeaderboardIndex {
+  db: Database;
+}
+
+export interface LeaderboardIndexStatus {
+  cursorBlock: number; // Every event before this block is indexed
+  transfersIndexed: number;
+  caughtUp: boolean; // true once the walk has reached the subgraph head
+  updatedAt?: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE domains (
+    id TEXT PRIMARY KEY,
+    name TEXT,
+    club TEXT,
+    manager TEXT,
+    registrant TEXT,
+    wrapped_owner TEXT,
+    owner TEXT,
+    holding_id INTEGER,
+    changes INTEGER NOT NULL DEFAULT 0,
+    sales INTEGER NOT NULL DEFAULT 0,
+    registrations INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX domains_changes ON domains (changes);
+  CREATE TABLE ownership_changes (
+    id INTEGER PRIMARY KEY,
+    domain_id TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    transaction_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    previous_owner TEXT,
+    owner TEXT NOT NULL,
+    ended_at INTEGER,
+    next_id INTEGER,
+    marketplace TEXT,
+    price TEXT,
+    currency TEXT,
+    price_eth REAL
+  );
+  CREATE INDEX ownership_changes_timestamp ON ownership_changes (timestamp);
+  CREATE TABLE registrations (
+    domain_id TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    registrant TEXT NOT NULL,
+    reregistration INTEGER NOT NULL
+  );
+  CREATE INDEX registrations_timestamp ON registrations (timestamp);
+`;
+
+// Lookup indexes for the address boards, created on every open so adding one doesn't need a rebuild
+const SECONDARY_INDEXES = `
+  CREATE INDEX IF NOT EXISTS domains_owner ON domains (owner);
+  CREATE INDEX IF NOT EXISTS ownership_changes_owner ON ownership_changes (owner);
+`;
+
+export async function openLeaderboardIndex(path: string): Promise<LeaderboardIndex> {
+  const { default: Database } = await import("better-sqlite3");
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec("CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)");
+
+  const index = { db };
+  if (readMeta(index, "version") !== String(INDEX_VERSION)) {
+    db.transaction(() => {
+      db.exec(`
+        DROP TABLE IF EXISTS domains;
+        DROP TABLE IF EXISTS ownership_changes;
+        DROP TABLE IF EXISTS registrations;
+        DELETE FROM meta;
+      `);
+      db.exec(SCHEMA);
+      writeMeta(index, "version", String(INDEX_VERSION));
+    })();
+  }
+  db.exec(SECONDARY_INDEXES);
+  return index;
+}
+
+const indexes = new Map<string, Promise<LeaderboardIndex | null>>();
+
+// The index configured by ENS_LEADERBOARD_INDEX: a SQLite file path (default ./.cache/leaderboard.db)
+// or "none". Opened once per process; null when disabled or when the file can't be opened
+export const getLeaderboardIndex = (
+  config = process.env.ENS_LEADERBOARD_INDEX || "./.cache/leaderboard.db"
+): Promise<LeaderboardIndex | null> => {
+  if (config === "none") return Promise.resolve(null);
+  if (!indexes.has(config)) {
+    indexes.set(
+      config,
+      openLeaderboardIndex(config).catch((error) => {
+        console.error(`Failed to open leaderboard index "${config}":`, error);
+        return null;
+      })
+    );
+  }
+  return indexes.get(config)!;
+};
+
+const readMeta = (index: LeaderboardIndex, key: string): string | undefined =>
+  index.db.prepare<[string], { value: string }>("SELECT value FROM meta WHERE key = ?").get(key)?.value;
+
+const writeMeta = (index: LeaderboardIndex, key: string, value: string) =>
+  index.db.prepare<[string, string]>("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, value);
+
+export function getIndexStatus(index: LeaderboardIndex): LeaderboardIndexStatus {
+  const updatedAt = readMeta(index, "updated_at");
+  return {
+    cursorBlock: Number(readMeta(index, "cursor_block") ?? 0),
+    transfersIndexed: Number(readMeta(index, "transfers_indexed") ?? 0),
+    caughtUp: readMeta(index, "caught_up") === "1",
+    updatedAt: updatedAt ? Number(updatedAt) : undefined,
+  };
+}
+
+interface DomainRow {
+  manager: string | null;
+  registrant: string | null;
+  wrapped_owner: string | null;
+  owner: string | null;
+  holding_id: number | null;
+}
+
+// Apply a chain-ordered run of whole blocks and move the cursor, in one transaction so an
+// interrupted run never counts an event twice
+// Role events are grouped by transaction and domain, as in getEffectiveTransfers, so wrapping and
+// unwrapping don't produce intermediate owners
+function applyEvents(
+  index: LeaderboardIndex,
+  events: IndexEvent[],
+  cursorBlock: number,
+  head: SubgraphHead,
+  caughtUp: boolean
+) {
+  const { db } = index;
+  const selectDomain = db.prepare<[string], DomainRow>(
+    "SELECT manager, registrant, wrapped_owner, owner, holding_id FROM domains WHERE id = ?"
+  );
+  const upsertName = db.prepare<[string, string | null, string | null]>(`
+    INSERT INTO domains (id, name, club) VALUES (?, ?, ?)
+    ON CONFLICT (id) DO UPDATE SET
+      name = COALESCE(excluded.name, domains.name),
+      club = COALESCE(excluded.club, domains.club)
+  `);
+  const updateRoles = db.prepare<[string | null, string | null, string | null, string]>(
+    "UPDATE domains SET manager = ?, registrant = ?, wrapped_owner = ? WHERE id = ?"
+  );
+  const insertChange = db.prepare<[string, number, number, number, string, string, string | null, string]>(`
+    INSERT INTO ownership_changes
+      (domain_id, block_number, log_index, timestamp, transaction_id, role, previous_owner, owner)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const endHolding = db.prepare<[number, number, number]>(
+    "UPDATE ownership_changes SET ended_at = ?, next_id = ? WHERE id = ?"
+  );
+  const updateOwner = db.prepare<[string, number, number, string]>(
+    "UPDATE domains SET owner = ?, holding_id = ?, changes = changes + ? WHERE id = ?"
+  );
+  const insertRegistration = db.prepare<[string, number, number, string, number]>(
+    "INSERT INTO registrations (domain_id, block_number, timestamp, registrant, reregistration) VALUES (?, ?, ?, ?, ?)"
+  );
+  const countRegistration = db.prepare<[string], { registrations: number }>(
+    "UPDATE domains SET registrations = registrations + 1 WHERE id = ? RETURNING registrations"
+  );
+
+  const timestampOf = (blockNumber: number) =>
+    Math.floor(estimateTimestampToHead(blockNumber, head).getTime() / 1000);
+
+  // Consecutive events of one domain within one transaction
+  const groups: IndexEvent[][] = [];
+  const open = new Map<string, IndexEvent[]>();
+  for (const event of events) {
+    const key = `${event.transactionID}:${event.domainId}`;
+    let group = open.get(key);
+    if (!group) {
+      group = [];
+      open.set(key, group);
+      groups.push(group);
+    }
+    group.push(event);
+  }
+
+  db.transaction(() => {
+    for (const group of groups) {
+      const first = group[0];
+      const decoded = first.name && decodeName(first.name);
+      upsertName.run(first.domainId, first.name, (decoded && getClub(decoded)) ?? null);
+
+      const row = selectDomain.get(first.domainId)!;
+      const holders = { manager: row.manager, registrant: row.registrant, wrappedOwner: row.wrapped_owner };
+      let last: IndexEvent | undefined;
+      for (const event of group) {
+        if (event.stream === "registration") {
+          const { registrations } = countRegistration.get(event.domainId)!;
+          insertRegistration.run(
+            event.domainId,
+            event.blockNumber,
+            timestampOf(event.blockNumber),
+            event.address,
+            registrations > 1 ? 1 : 0
+          );
+        } else {
+          holders[event.stream] = event.address;
+          last = event;
+        }
+      }
+      if (!last) continue;
+      updateRoles.run(holders.manager, holders.registrant, holders.wrappedOwner, first.domainId);
+
+      const owner = resolveEffectiveOwner({
+        manager: holders.manager ?? undefined,
+        registrant: holders.registrant ?? undefined,
+        wrappedOwner: holders.wrappedOwner ?? undefined,
+      })?.toLowerCase();
+      if (!owner || owner === row.owner) continue;
+
+      const timestamp = timestampOf(last.blockNumber);
+      const { lastInsertRowid } = insertChange.run(
+        first.domainId,
+        last.blockNumber,
+        last.logIndex,
+        timestamp,
+        last.transactionID,
+        last.stream,
+        row.owner,
+        owner
+      );
+      const changeId = Number(lastInsertRowid);
+      if (row.holding_id !== null) endHolding.run(timestamp, changeId, row.holding_id);
+      updateOwner.run(owner, changeId, row.owner === null ? 0 : 1, first.domainId);
+    }
+
+    const { transfersIndexed } = getIndexStatus(index);
+    writeMeta(index, "cursor_block", String(cursorBlock));
+    writeMeta(index, "transfers_indexed", String(transfersIndexed + events.length));
+    writeMeta(index, "head_block", String(head.blockNumber));
+    if (caughtUp) writeMeta(index, "caught_up", "1");
+    writeMeta(index, "updated_at", String(Date.now()));
+  })();
+}
+
+const toEvent = (stream: IndexStream, row: StreamRow): IndexEvent | null => {
+  const domain = row.domain ?? row.registration?.domain;
+  const address = (row.owner ?? row.newOwner ?? row.registrant)?.id;
+  if (!domain || !address || isReverseRecord(domain.name)) return null;
+  return {
+    stream,
+    domainId: domain.id,
+    name: domain.name,
+    blockNumber: Number(row.blockNumber),
+    logIndex: getLogIndex(row.id),
+    transactionID: row.transactionID,
+    address: address.toLowerCase(),
+  };
+};
+
+// Chain order across streams
+const sortEvents = (events: IndexEvent[]) =>
+  events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+const STREAM_NAMES = Object.keys(STREAMS) as IndexStream[];
+
+// Every event of every stream in a single block (used when one block fills a whole page)
+async function fetchBlockEvents(client: GraphQLClient, block: number): Promise<IndexEvent[]> {
+  const events: IndexEvent[] = [];
+  for (const stream of STREAM_NAMES) {
+    let cursor = "";
+    for (;;) {
+      const data = await requestSubgraph<{ rows: StreamRow[] }>(client, streamBlockQuery(stream), {
+        block,
+        cursor,
+        first: TRANSFERS_PAGE_SIZE,
+      });
+      for (const row of data.rows) {
+        const event = toEvent(stream, row);
+        if (event) events.push(event);
+      }
+      if (data.rows.length < TRANSFERS_PAGE_SIZE) break;
+      cursor = data.rows[data.rows.length - 1].id;
+    }
+  }
+  return sortEvents(events);
+}
+
+// Walk every stream forward from the stored block cursor, at most `maxPages` pages
+// Only whole blocks are applied, and only blocks every stream has fully returned: a full page's
+// last block may continue on the next page, so the walk stops short of the earliest such block.
+// The subgraph head is read first, so nothing past it is applied while the subgraph indexes more.
+// Returns true when the walk reached the head. Throws on subgraph errors; everything applied
+// before the error is kept
+export async function indexTransfers(
+  client: GraphQLClient,
+  index: LeaderboardIndex,
+  maxPages = PAGES_PER_RUN
+): Promise<boolean> {
+  for (let page = 0; page < maxPages; page++) {
+    const { cursorBlock } = getIndexStatus(index);
+    const { _meta } = await requestSubgraph<{ _meta: { block: { number: number; timestamp: number } } }>(
+      client,
+      GET_HEAD,
+      {}
+    );
+    const head = { blockNumber: Number(_meta.block.number), timestamp: Number(_meta.block.timestamp) };
+    if (cursorBlock > head.blockNumber) return true;
+
+    const pages = await Promise.all(
+      STREAM_NAMES.map(async (stream) => {
+        const data = await requestSubgraph<{ rows: StreamRow[] }>(client, streamPageQuery(stream), {
+          fromBlock: cursorBlock,
+          first: TRANSFERS_PAGE_SIZE,
+        });
+        return { stream, rows: data.rows };
+      })
+    );
+
+    // First block that may be incomplete in some stream
+    const bound = Math.min(
+      head.blockNumber + 1,
+      ...pages
+        .filter(({ rows }) => rows.length === TRANSFERS_PAGE_SIZE)
+        .map(({ rows }) => Number(rows[rows.length - 1].blockNumber))
+    );
+
+    if (bound === cursorBlock) {
+      // A whole page is one block - read that block on its own
+      const blockEvents = await fetchBlockEvents(client, cursorBlock);
+      await loadLabels(blockEvents.map((event) => event.name));
+      applyEvents(index, blockEvents, cursorBlock + 1, head, false);
+      continue;
+    }
+
+    const events = sortEvents(
+      pages.flatMap(({ stream, rows }) =>
+        rows
+          .filter((row) => Number(row.blockNumber) < bound)
+          .map((row) => toEvent(stream, row))
+          .filter((event): event is IndexEvent => event !== null)
+      )
+    );
+    const atHead = bound === head.blockNumber + 1;
+    // Clubs are assigned from decoded names
+    await loadLabels(events.map((event) => event.name));
+    applyEvents(index, events, bound, head, atHead);
+    if (atHead) return true;
+  }
+  return false;
+}
+
+// Look up the sale (if any) behind the next ownership changes, in index order
+// Only registrant and wrapped-owner changes can be marketplace trades; the first owner of a
+// domain never is. Stops at the first receipt that can't be loaded, so it's retried next run.
+// Returns the number of changes checked
+export async function indexSales(
+  publicClient: PublicClient,
+  index: LeaderboardIndex,
+  limit = SALES_PER_RUN
+): Promise<number> {
+  const { db } = index;
+  const salesCursor = Number(readMeta(index, "sales_cursor") ?? 0);
+  const rows = db
+    .prepare<[number, number], { id: number; domain_id: string; name: string | null; transaction_id: string; timestamp: number }>(`
+      SELECT c.id, c.domain_id, d.name, c.transaction_id, c.timestamp
+      FROM ownership_changes c JOIN domains d ON d.id = c.domain_id
+      WHERE c.id > ? AND c.role != 'manager' AND c.previous_owner IS NOT NULL
+      ORDER BY c.id
+      LIMIT ?
+    `)
+    .all(salesCursor, limit);
+  if (rows.length === 0) return 0;
+
+  const receipts = await Promise.all(
+    rows.map((row) => publicClient.getTransactionReceipt({ hash: row.transaction_id as Hash }).catch(() => null))
+  );
+  const failed = receipts.findIndex((receipt) => receipt === null);
+  const checked = failed === -1 ? rows.length : failed;
+  if (checked === 0) return 0;
+
+  const priceTable = loadPriceTable();
+  const recordSale = db.prepare<[string, string, string, number | null, number]>(
+    "UPDATE ownership_changes SET marketplace = ?, price = ?, currency = ?, price_eth = ? WHERE id = ?"
+  );
+  const countSale = db.prepare<[string]>("UPDATE domains SET sales = sales + 1 WHERE id = ?");
+
+  db.transaction(() => {
+    rows.slice(0, checked).forEach((row, i) => {
+      // Names only known by hash still work: namehash and labelhash accept "[labelhash]" labels
+      const sale = row.name ? parseSaleLogs(receipts[i]!.logs, row.name) : null;
+      if (!sale) return;
+      // Sales are compared in ETH; USDC ones are converted when a price table is configured
+      let priceEth: number | null = parseFloat(sale.price);
+      if (sale.currency === "USDC") {
+        const date = new Date(row.timestamp * 1000);
+        const usd = priceTable && getUsdValue(sale, date, priceTable);
+        const ethUsd = priceTable?.[date.toISOString().slice(0, 10)]?.ETH;
+        priceEth = usd && ethUsd ? usd / ethUsd : null;
+      }
+      recordSale.run(sale.marketplace, sale.price, sale.currency, priceEth, row.id);
+      countSale.run(row.domain_id);
+    });
+    writeMeta(index, "sales_cursor", String(rows[checked - 1].id));
+  })();
+  return checked;
+}
+
+let indexer: Promise<void> | null = null;
+
+// Keep the index current in the background: catch up run by run, then poll for new events
+// Sales are looked up behind the walk when an RPC endpoint is configured
+// Started once per process (see instrumentation.ts); does nothing when the index is disabled
+export function startLeaderboardIndexer(
+  client: GraphQLClient = createSubgraphClient(),
+  publicClient: PublicClient | null = createRpcClient()
+) {
+  if (indexer) return;
+  indexer = (async () => {
+    const index = await getLeaderboardIndex();
+    if (!index) return;
+    for (;;) {
+      let idle: boolean;
+      try {
+        const atHead = await indexTransfers(client, index);
+        const salesChecked = publicClient ? await indexSales(publicClient, index) : 0;
+        idle = atHead && salesChecked < SALES_PER_RUN;
+      } catch (error) {
+        // Rate limits and outages: back off until the next poll
+        console.error("Leaderboard indexer error:", error instanceof ENSHistoryError ? error.message : error);
+        idle = true;
+      }
+      await new Promise((resolve) => setTimeout(resolve, idle ? POLL_INTERVAL_MS : CATCH_UP_PAUSE_MS));
+    }
+  })();
+}
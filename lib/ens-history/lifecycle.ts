@@ -0,0 +1,67 @@
+import type { ENSLapse, ENSLifecycle, ENSLifecycleStatus, ENSRegistrationEvent } from "@/types/ens";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// After expiry the registrant can still renew for 90 days
+export const GRACE_PERIOD_MS = 90 * DAY_MS;
+// Then the name is auctioned with a temporary premium that decays to zero over 21 days
+export const PREMIUM_PERIOD_MS = 21 * DAY_MS;
+// ExponentialPremiumPriceOracle: $100M start premium, halving every day
+export const START_PREMIUM_USD = 100_000_000;
+
+// The dates a name moves from one lifecycle state to the next
+export const getLifecycleTransitions = (expiryDate: Date) => ({
+  expiryDate,
+  graceEndDate: new Date(expiryDate.getTime() + GRACE_PERIOD_MS),
+  premiumEndDate: new Date(expiryDate.getTime() + GRACE_PERIOD_MS + PREMIUM_PERIOD_MS),
+});
+
+export const getLifecycleStatus = (expiryDate: Date, at: Date = new Date()): ENSLifecycleStatus => {
+  const { graceEndDate, premiumEndDate } = getLifecycleTransitions(expiryDate);
+  if (at < expiryDate) return "active";
+  if (at < graceEndDate) return "grace";
+  if (at < premiumEndDate) return "premium";
+  return "available";
+};
+
+// Temporary premium (USD) for registering the name at `at`; 0 outside the premium auction
+// The oracle subtracts the value the curve would reach at the end, so the premium hits exactly 0
+export const getPremiumPrice = (expiryDate: Date, at: Date = new Date()): number => {
+  const { graceEndDate, premiumEndDate } = getLifecycleTransitions(expiryDate);
+  if (at < graceEndDate || at >= premiumEndDate) return 0;
+  const elapsedDays = (at.getTime() - graceEndDate.getTime()) / DAY_MS;
+  const endValue = START_PREMIUM_USD * Math.pow(0.5, PREMIUM_PERIOD_MS / DAY_MS);
+  return Math.max(0, START_PREMIUM_USD * Math.pow(0.5, elapsedDays) - endValue);
+};
+
+export const getLifecycle = (expiryDate: Date, at: Date = new Date()): ENSLifecycle => {
+  const status = getLifecycleStatus(expiryDate, at);
+  return {
+    status,
+    ...getLifecycleTransitions(expiryDate),
+    premiumUsd: status === "premium" ? getPremiumPrice(expiryDate, at) : undefined,
+  };
+};
+
+// Every time the name expired, went through grace (and usually the premium auction) and was
+// registered again. Only possible once the grace period is over, so every registration after
+// the first one is a lapse.
+export function getLapses(registrationEvents: ENSRegistrationEvent[]): ENSLapse[] {
+  const lapses: ENSLapse[] = [];
+  let previousExpiry: Date | null = null;
+
+  for (const event of registrationEvents) {
+    if (event.type === "registration" && previousExpiry && event.date > previousExpiry) {
+      lapses.push({
+        ...getLifecycleTransitions(previousExpiry),
+        reregisteredDate: event.date,
+        transactionHash: event.transactionHash,
+        registrant: event.registrant,
+        premium: event.premium,
+      });
+    }
+    previousExpiry = event.expiryDate;
+  }
+
+  return lapses;
+}
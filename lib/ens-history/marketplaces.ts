@@ -0,0 +1,40 @@
+// Known marketplace contract addresses (common ENS marketplaces)
+export const MARKETPLACE_CONTRACTS: Record<string, string> = {
+  // OpenSea - Seaport Protocol (primary protocol since 2022)
+  "0x00000000006c3852cbef3e08e8df289169ede581": "OpenSea Seaport",
+  "0x00000000006cee72100d161c57ada5bb2be1ca79": "OpenSea Seaport V1",
+  "0x00000000006c7676171937c444f6bde3d6282": "OpenSea Seaport V3",
+  "0x0000000000000ad24e80fd803c6ac37206a45f15": "OpenSea Seaport V4",
+  "0x00000000000001ad428e4906ae43d8f9852d0dd6": "OpenSea Seaport V5",
+  "0x00000000000000adc04c56bf30ac9d3c0aaf14dc": "OpenSea Seaport V6",
+  "0x0000000000000068f116a894984e2db1123eb395": "OpenSea Seaport V7",
+
+  // OpenSea - Wyvern Protocol (legacy)
+  "0x7be8076f4ea4a4ad08075c2508e481d6c946d12b": "OpenSea Wyvern",
+  "0x7f268357a8c2552623316e2562d90e642bb538e5": "OpenSea Wyvern V2",
+
+  // OpenSea - Shared Storefront
+  "0x495f947276749ce646f68ac8c248420045cb7b5e": "OpenSea Shared Storefront",
+
+  // Note: Vision.io and Grails.app contract addresses are not publicly documented.
+  // Grails.app (https://grails.app) likely uses OpenSea's Seaport protocol, so transactions
+  // may already be detected through the OpenSea contracts above.
+  // The heuristic detection (rapid intermediate transfers) will also catch marketplace
+  // escrow patterns from these platforms if they use escrow contracts.
+  // If you obtain specific contract addresses, add them here in the format:
+  // "0x...": "Vision.io" or "0x...": "Grails.app"
+};
+
+// Helper to detect if an address might be a marketplace contract
+export const isMarketplaceContract = (address: string): { isMarketplace: boolean; name?: string } => {
+  const addrLower = address.toLowerCase();
+
+  // Check against known marketplaces
+  if (MARKETPLACE_CONTRACTS[addrLower]) {
+    return { isMarketplace: true, name: MARKETPLACE_CONTRACTS[addrLower] };
+  }
+
+  // Heuristic: If transfer is very short-lived (rapid transfer back), might be marketplace escrow
+  // But we'll mark it based on pattern detection in the processing logic
+  return { isMarketplace: false };
+};
@@ -0,0 +1,63 @@
+import { beautify, normalise } from "@ensdomains/ensjs/utils";
+import { ENSHistoryError } from "./errors";
+
+// Upper bound on names per batch so a single request stays bounded
+// Lives here rather than in batch.ts so the client-side batch form can share it
+export const MAX_BATCH_NAMES = 1000;
+
+// Labels the subgraph never saw in plain text come back encoded as "[<labelhash without 0x>]"
+const ENCODED_LABEL = /^\[([0-9a-f]{64})\]$/i;
+
+export const isEncodedLabel = (label: string) => ENCODED_LABEL.test(label);
+
+// Labelhash (0x-prefixed) of an encoded label, or null for plain labels
+export const getEncodedLabelhash = (label: string): `0x${string}` | null => {
+  const match = ENCODED_LABEL.exec(label);
+  return match ? `0x${match[1].toLowerCase()}` : null;
+};
+
+// Normalize one label; encoded labels are kept (lowercased)
+const normalizeLabel = (label: string) => {
+  if (isEncodedLabel(label)) return label.toLowerCase();
+  if (!label) throw new Error("empty label");
+  return normalise(label);
+};
+
+// ENSIP-15 normalization (shared by the API and the search box)
+// A bare label gets the .eth suffix; names that already have a TLD (e.g. DNS-imported example.com) keep it
+// Throws ENSHistoryError(400) with the normalizer's reason (disallowed character, confusable, ...)
+export const normalizeENSName = (name: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new ENSHistoryError("ENS name is required", 400);
+  }
+
+  let normalized: string;
+  try {
+    normalized = trimmed.split(".").map(normalizeLabel).join(".");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ENSHistoryError(`"${trimmed}" is not a valid ENS name: ${reason}`, 400);
+  }
+
+  return normalized.includes(".") ? normalized : `${normalized}.eth`;
+};
+
+// Display form of a normalized name (e.g. restores emoji presentation); falls back to the name as-is
+export const beautifyENSName = (name: string): string => {
+  try {
+    return beautify(name);
+  } catch {
+    return name;
+  }
+};
+
+// Whether a name (e.g. from the subgraph) is already in normalized form
+// Names with unknown labels ("[labelhash]") or unnormalized characters aren't
+export const isNormalizedENSName = (name: string): boolean => {
+  try {
+    return !!name && name.split(".").every((label) => !isEncodedLabel(label) && normalise(label) === label);
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,162 @@
+import type { ENSBurnEvent, ENSOwner } from "@/types/ens";
+import { isMarketplaceContract } from "./marketplaces";
+import { parseSubgraphTimestamp, type SubgraphRegistration, type SubgraphTransfer } from "./subgraph";
+import type { BlockTimestamp } from "./timestamps";
+
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Normalize stage: turn raw transfers into ownership periods and burn events
+// `timestamps` must be aligned with `transfers` (see resolveTransferTimestamps)
+// Handles marketplace/auction scenarios where ownership might transfer through escrow contracts
+export function normalizeTransfers(
+  transfers: SubgraphTransfer[],
+  timestamps: BlockTimestamp[]
+): { owners: ENSOwner[]; burnEvents: ENSBurnEvent[] } {
+  const owners: ENSOwner[] = [];
+  const burnEvents: ENSBurnEvent[] = [];
+
+  for (let i = 0; i < transfers.length; i++) {
+    const transfer = transfers[i];
+    const timestamp = timestamps[i];
+
+    // Skip duplicate transfers: same owner in same block (duplicate events)
+    if (i > 0) {
+      const prevTransfer = transfers[i - 1];
+      const prevTimestamp = timestamps[i - 1];
+
+      // If same block and same owner, skip (duplicate event)
+      if (!prevTimestamp.estimated && !timestamp.estimated &&
+        prevTransfer.blockNumber === transfer.blockNumber &&
+        prevTransfer.owner.id.toLowerCase() === transfer.owner.id.toLowerCase()) {
+        continue;
+      }
+    }
+
+    // Detect marketplace contracts
+    // Check if this transfer is to/from a known marketplace or looks like marketplace escrow
+    const marketplaceCheck = isMarketplaceContract(transfer.owner.id);
+    let isMarketplace = marketplaceCheck.isMarketplace;
+    let marketplaceName = marketplaceCheck.name;
+
+    // Heuristic: If this is a rapid intermediate transfer, it might be a marketplace escrow
+    // Only applied when the surrounding block timestamps are exact
+    if (!isMarketplace && i > 0 && i < transfers.length - 1) {
+      const prevTransfer = transfers[i - 1];
+      const nextTransfer = transfers[i + 1];
+
+      if (!timestamps[i - 1].estimated && !timestamps[i + 1].estimated && !timestamp.estimated) {
+        const blockDiff = Number(transfer.blockNumber) - Number(prevTransfer.blockNumber);
+        const nextBlockDiff = Number(nextTransfer.blockNumber) - Number(transfer.blockNumber);
+
+        // If transfers happen within 10 blocks of each other, might be marketplace escrow
+        if (blockDiff <= 10 && nextBlockDiff <= 10) {
+          // If this is an intermediate transfer (different from both prev and next), likely marketplace
+          const isIntermediate =
+            transfer.owner.id.toLowerCase() !== prevTransfer.owner.id.toLowerCase() &&
+            transfer.owner.id.toLowerCase() !== nextTransfer.owner.id.toLowerCase();
+
+          if (isIntermediate) {
+            isMarketplace = true;
+            marketplaceName = "Marketplace"; // Generic name if we can't identify specific marketplace
+          }
+        }
+      }
+    }
+
+    // Get end date from next transfer
+    // Always set end date to the next transfer's timestamp, even if same block
+    // If this is the last transfer, endDate stays undefined (will be set to expiry date if current owner)
+    const endDate = i < transfers.length - 1 ? timestamps[i + 1].date : undefined;
+    const endDateEstimated = i < transfers.length - 1 ? timestamps[i + 1].estimated : undefined;
+
+    // Check if this is a burn/revoke (transfer to zero address)
+    const isBurned = transfer.owner.id.toLowerCase() === ZERO_ADDRESS;
+
+    // Don't create an ownership period for burns - they're just events
+    // Track burn events separately and mark previous owner's end date
+    if (!isBurned) {
+      owners.push({
+        address: transfer.owner.id,
+        startDate: timestamp.date,
+        endDate,
+        startDateEstimated: timestamp.estimated || undefined,
+        endDateEstimated: endDateEstimated || undefined,
+        transactionHash: transfer.transactionID,
+        blockNumber: BigInt(transfer.blockNumber),
+        isMarketplace: isMarketplace || undefined,
+        marketplaceName: marketplaceName || undefined,
+      });
+    } else {
+      burnEvents.push({
+        date: timestamp.date,
+        transactionHash: transfer.transactionID,
+        blockNumber: BigInt(transfer.blockNumber),
+        estimated: timestamp.estimated,
+      });
+      if (owners.length > 0) {
+        owners[owners.length - 1].endDate = timestamp.date;
+        owners[owners.length - 1].endDateEstimated = timestamp.estimated || undefined;
+      }
+    }
+  }
+
+  return { owners, burnEvents };
+}
+
+export const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+// Merge the original registration into the ownership periods
+// Registration must come before any transfers (including burns)
+export function mergeRegistration(
+  owners: ENSOwner[],
+  registrations: SubgraphRegistration[],
+  currentOwnerAddress: string
+): ENSOwner[] {
+  if (registrations.length === 0) return owners;
+
+  // Sort registrations to get the earliest (first) registration
+  const registration = [...registrations].sort(
+    (a, b) => parseInt(a.registrationDate) - parseInt(b.registrationDate)
+  )[0];
+  const regDate = parseSubgraphTimestamp(registration.registrationDate);
+  if (!regDate) return owners;
+
+  const registrantAddress = registration.registrant.id.toLowerCase();
+  const registrantIsCurrentOwner = registrantAddress === currentOwnerAddress.toLowerCase();
+
+  if (owners.length === 0) {
+    // No transfers, domain still owned by registrant
+    return registrantIsCurrentOwner
+      ? [{ address: registration.registrant.id, startDate: regDate, transactionHash: "", blockNumber: BigInt(0) }]
+      : owners;
+  }
+
+  const [firstOwner, ...rest] = owners;
+
+  if (firstOwner.address.toLowerCase() === registrantAddress && isSameDay(firstOwner.startDate, regDate)) {
+    // First transfer is by the registrant on the same day - use registration date instead
+    // (registration date is more accurate than block timestamp)
+    return [{ ...firstOwner, startDate: regDate, startDateEstimated: undefined }, ...rest];
+  }
+
+  if (registrantIsCurrentOwner) return owners;
+
+  // Add registration entry before first transfer
+  // Use the earlier of registration date or first transfer date as start
+  const startsAtRegistration = regDate < firstOwner.startDate;
+  return [
+    {
+      address: registration.registrant.id,
+      startDate: startsAtRegistration ? regDate : firstOwner.startDate,
+      endDate: firstOwner.startDate,
+      startDateEstimated: startsAtRegistration ? undefined : firstOwner.startDateEstimated,
+      endDateEstimated: firstOwner.startDateEstimated,
+      transactionHash: "",
+      blockNumber: BigInt(0),
+    },
+    ...owners,
+  ];
+}
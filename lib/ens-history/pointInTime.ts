@@ -0,0 +1,83 @@
+import type { ENSLifecycleStatus, ENSRecordChange } from "@/types/ens";
+import { ENSHistoryError } from "./errors";
+import { getLifecycleStatus } from "./lifecycle";
+
+// Point-in-time helpers shared by the API (Dates) and the UI (ISO strings)
+type DateLike = Date | string;
+
+const toDate = (date: DateLike) => (typeof date === "string" ? new Date(date) : date);
+
+// Parse an `at` query value: a block number or an ISO date
+// Throws ENSHistoryError(400) for anything else
+export const parseAt = (value: string): { blockNumber: bigint } | { date: Date } => {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return { blockNumber: BigInt(trimmed) };
+  const date = new Date(trimmed);
+  if (isNaN(date.getTime())) {
+    throw new ENSHistoryError(`Invalid "at" value "${value}": expected an ISO date or a block number`, 400);
+  }
+  return { date };
+};
+
+// The ownership period covering `at` (start inclusive, end exclusive; open-ended periods run on)
+export const getPeriodAt = <T extends { startDate: DateLike; endDate?: DateLike | null }>(
+  periods: T[],
+  at: Date
+): T | undefined =>
+  periods.find(
+    (period) => toDate(period.startDate) <= at && (!period.endDate || at < toDate(period.endDate))
+  );
+
+// Lifecycle state at `at`, from the expiry in effect then (set by the last registration or renewal
+// before it). Names without registration events (subnames) fall back to `expiryDate`.
+// Undefined before the name was first registered.
+export const getStatusAt = (
+  at: Date,
+  firstRegistered: DateLike | undefined,
+  registrationEvents: Array<{ date: DateLike; expiryDate: DateLike }>,
+  expiryDate?: DateLike
+): ENSLifecycleStatus | undefined => {
+  if (!firstRegistered || at < toDate(firstRegistered)) return undefined;
+  const inEffect = registrationEvents.filter((event) => toDate(event.date) <= at).pop();
+  const expiry = inEffect ? inEffect.expiryDate : expiryDate;
+  return expiry ? getLifecycleStatus(toDate(expiry), at) : "active";
+};
+
+export interface RecordsAt {
+  resolver?: string;
+  address?: string; // ETH address
+  contenthash?: string;
+  texts: Record<string, string>;
+}
+
+// Replay record changes up to `at`: records are kept per resolver, and the answer is whatever
+// the resolver in use at that moment held (records set on a resolver before switching to it count)
+export function getRecordsAt(
+  changes: Array<Pick<ENSRecordChange, "type" | "resolver" | "coinType" | "key" | "value"> & { date: DateLike }>,
+  at: Date
+): RecordsAt {
+  const byResolver = new Map<string, Omit<RecordsAt, "resolver">>();
+  let resolver: string | undefined;
+
+  for (const change of changes) {
+    if (toDate(change.date) > at) break;
+    const key = change.resolver.toLowerCase();
+    if (change.type === "resolver") {
+      resolver = key;
+      continue;
+    }
+
+    const records = byResolver.get(key) ?? { texts: {} };
+    if (change.type === "addr" && change.coinType === "60") records.address = change.value;
+    if (change.type === "contenthash") records.contenthash = change.value;
+    if (change.type === "text" && change.key) {
+      if (change.value) records.texts[change.key] = change.value;
+      else delete records.texts[change.key];
+    }
+    byResolver.set(key, records);
+  }
+
+  // No resolver yet, or the resolver was cleared
+  if (!resolver || /^0x0+$/.test(resolver)) return { texts: {} };
+  return { resolver, ...(byResolver.get(resolver) ?? { texts: {} }) };
+}
@@ -0,0 +1,295 @@
+import type { GraphQLClient } from "graphql-request";
+import { isAddress, type PublicClient } from "viem";
+import type { ENSHistory, ENSHolding, ENSOwner, ENSPortfolio } from "@/types/ens";
+import { getCache, type CacheStore } from "./cache";
+import { ENSHistoryError } from "./errors";
+import { buildENSHistory } from "./history";
+import { decodeName, loadLabels } from "./labels";
+import { normalizeENSName } from "./names";
+import { isSameDay } from "./normalize";
+import { getOwnershipEvents } from "./roles";
+import { fetchSales, withSale } from "./sales";
+import {
+  createSubgraphClient,
+  fetchDomainsHistory,
+  parseSubgraphTimestamp,
+  requestSubgraph,
+  type SubgraphRegistration,
+} from "./subgraph";
+import {
+  alignTimestamps,
+  createRpcClient,
+  fetchBlockTimestamps,
+  resolveTransferTimestamps,
+} from "./timestamps";
+
+const PAGE_SIZE = 1000;
+// Upper bound on names per portfolio so a single lookup stays bounded
+const MAX_PORTFOLIO_DOMAINS = 1000;
+
+// Every entity that ties an address to a domain: ownership events of any role to it,
+// registrations by it, and domains it currently holds a role in. Paginated by id.
+const GET_ADDRESS_TRANSFERS = `
+  query GetAddressTransfers($address: String!, $cursor: String!, $first: Int!) {
+    rows: transfers(where: { owner: $address, id_gt: $cursor }, orderBy: id, first: $first) {
+      id
+      domain {
+        id
+      }
+    }
+  }
+`;
+
+const GET_ADDRESS_NAME_TRANSFERREDS = `
+  query GetAddressNameTransferreds($address: String!, $cursor: String!, $first: Int!) {
+    rows: nameTransferreds(where: { newOwner: $address, id_gt: $cursor }, orderBy: id, first: $first) {
+      id
+      registration {
+        domain {
+          id
+        }
+      }
+    }
+  }
+`;
+
+const GET_ADDRESS_WRAPPED_TRANSFERS = `
+  query GetAddressWrappedTransfers($address: String!, $cursor: String!, $first: Int!) {
+    rows: wrappedTransfers(where: { owner: $address, id_gt: $cursor }, orderBy: id, first: $first) {
+      id
+      domain {
+        id
+      }
+    }
+  }
+`;
+
+const GET_ADDRESS_REGISTRATIONS = `
+  query GetAddressRegistrations($address: String!, $cursor: String!, $first: Int!) {
+    rows: registrations(where: { registrant: $address, id_gt: $cursor }, orderBy: id, first: $first) {
+      id
+      domain {
+        id
+      }
+    }
+  }
+`;
+
+const GET_ADDRESS_DOMAINS = `
+  query GetAddressDomains($address: String!, $cursor: String!, $first: Int!) {
+    rows: domains(
+      where: {
+        and: [
+          { or: [{ owner: $address }, { registrant: $address }, { wrappedOwner: $address }] }
+          { id_gt: $cursor }
+        ]
+      }
+      orderBy: id
+      first: $first
+    ) {
+      id
+    }
+  }
+`;
+
+const GET_RESOLVED_ADDRESS = `
+  query GetResolvedAddress($name: String!) {
+    domains(where: { name: $name }) {
+      resolvedAddress {
+        id
+      }
+    }
+  }
+`;
+
+// Resolve an address or ENS name to a lowercase address
+// Uses the RPC when configured, otherwise the subgraph's resolved address
+export async function resolveAddress(
+  input: string,
+  subgraphClient: GraphQLClient,
+  publicClient: PublicClient | null
+): Promise<{ address: string; ensName?: string }> {
+  const trimmed = input.trim();
+  // Anything that isn't an address is a name, including ones like 0xfoo.eth
+  if (isAddress(trimmed, { strict: false })) {
+    return { address: trimmed.toLowerCase() };
+  }
+
+  const ensName = normalizeENSName(trimmed);
+  let resolved: string | null = null;
+
+  if (publicClient) {
+    try {
+      resolved = await publicClient.getEnsAddress({ name: ensName });
+    } catch (error) {
+      console.error(`Error resolving ${ensName} via RPC:`, error);
+    }
+  }
+
+  if (!resolved) {
+    const data = await requestSubgraph<{ domains: Array<{ resolvedAddress: { id: string } | null }> }>(
+      subgraphClient,
+      GET_RESOLVED_ADDRESS,
+      { name: ensName }
+    );
+    resolved = data.domains[0]?.resolvedAddress?.id ?? null;
+  }
+
+  if (!resolved) {
+    throw new ENSHistoryError(`Could not resolve "${ensName}" to an address`, 404);
+  }
+  return { address: resolved.toLowerCase(), ensName };
+}
+
+// Collect the ids of every domain an address has been tied to
+async function fetchAddressDomainIds(
+  client: GraphQLClient,
+  address: string
+): Promise<{ domainIds: string[]; truncated: boolean }> {
+  const domainIds = new Set<string>();
+
+  const queries = [
+    GET_ADDRESS_TRANSFERS,
+    GET_ADDRESS_NAME_TRANSFERREDS,
+    GET_ADDRESS_WRAPPED_TRANSFERS,
+    GET_ADDRESS_REGISTRATIONS,
+    GET_ADDRESS_DOMAINS,
+  ];
+
+  for (const query of queries) {
+    let cursor = "";
+    // One past the cap, so truncation can be told apart from exactly hitting it
+    while (domainIds.size <= MAX_PORTFOLIO_DOMAINS) {
+      const { rows } = await requestSubgraph<{
+        rows: Array<{ id: string; domain?: { id: string }; registration?: { domain: { id: string } } }>;
+      }>(client, query, { address, cursor, first: PAGE_SIZE });
+      for (const row of rows) {
+        domainIds.add(row.domain?.id ?? row.registration?.domain.id ?? row.id);
+      }
+      if (rows.length < PAGE_SIZE) break;
+      cursor = rows[rows.length - 1].id;
+    }
+  }
+
+  const ids = [...domainIds];
+  return {
+    domainIds: ids.slice(0, MAX_PORTFOLIO_DOMAINS),
+    truncated: ids.length > MAX_PORTFOLIO_DOMAINS,
+  };
+}
+
+// Extract the periods during which `address` held the name from a built history
+// Acquisitions are marketplace purchases when a sale was detected in their transaction
+export function getHoldings(
+  history: ENSHistory,
+  registrations: SubgraphRegistration[],
+  address: string
+): ENSHolding[] {
+  const addressLower = address.toLowerCase();
+  const periods: ENSOwner[] = history.currentOwner
+    ? [...history.owners, history.currentOwner]
+    : history.owners;
+
+  const holdings: ENSHolding[] = [];
+  periods.forEach((period, i) => {
+    if (period.address.toLowerCase() !== addressLower) return;
+
+    const isCurrent = period === history.currentOwner;
+
+    // Registration: the address registered the name when this period started
+    // (the first period, or a re-registration on the same day)
+    const isRegistration = registrations.some((registration) => {
+      if (registration.registrant.id.toLowerCase() !== addressLower) return false;
+      const regDate = parseSubgraphTimestamp(registration.registrationDate);
+      return i === 0 || (regDate !== null && isSameDay(regDate, period.startDate));
+    });
+
+    holdings.push({
+      name: history.name,
+      acquiredDate: period.startDate,
+      releasedDate: isCurrent ? undefined : period.endDate,
+      acquiredDateEstimated: period.startDateEstimated,
+      releasedDateEstimated: isCurrent ? undefined : period.endDateEstimated,
+      acquiredVia: isRegistration ? "registration" : period.sale ? "marketplace" : "transfer",
+      marketplaceName: !isRegistration ? period.sale?.marketplace : undefined,
+      transactionHash: period.transactionHash,
+      isCurrent,
+      expiryDate: isCurrent ? history.expiryDate : undefined,
+    });
+  });
+
+  return holdings;
+}
+
+export interface GetAddressPortfolioOptions {
+  subgraphClient?: GraphQLClient;
+  publicClient?: PublicClient | null; // Defaults to NEXT_PUBLIC_RPC_URL; null forces estimated timestamps
+  cache?: CacheStore | null; // Defaults to the ENS_CACHE store; null disables caching
+}
+
+// Every name an address (or the address an ENS name resolves to) has ever held
+// Each domain's history goes through the same pipeline as /api/ens, so dates and marketplace
+// detection are consistent with the name view
+export async function getAddressPortfolio(
+  addressOrName: string,
+  options: GetAddressPortfolioOptions = {}
+): Promise<ENSPortfolio> {
+  const subgraphClient = options.subgraphClient ?? createSubgraphClient();
+  const publicClient = options.publicClient !== undefined ? options.publicClient : createRpcClient();
+  const cache = options.cache !== undefined ? options.cache : await getCache();
+
+  const { address, ensName } = await resolveAddress(addressOrName, subgraphClient, publicClient);
+  const { domainIds, truncated } = await fetchAddressDomainIds(subgraphClient, address);
+  const domains = await fetchDomainsHistory(subgraphClient, domainIds);
+
+  // Fetch block timestamps once across all domains
+  const blockTimestamps = publicClient
+    ? await fetchBlockTimestamps(
+      publicClient,
+      domains.flatMap((data) => getOwnershipEvents(data).map((event) => event.blockNumber)),
+      cache
+    )
+    : null;
+
+  await loadLabels(domains.map((data) => data.domain.name), cache);
+  const histories: ENSHistory[] = [];
+  for (const data of domains) {
+    const events = getOwnershipEvents(data);
+    const timestamps = blockTimestamps
+      ? alignTimestamps(events, blockTimestamps)
+      : await resolveTransferTimestamps(events, null);
+    histories.push(buildENSHistory(decodeName(data.domain.name), data, timestamps));
+  }
+
+  // Sales are only looked up for the address's own acquisitions, issued together for batching
+  if (publicClient) {
+    await Promise.all(
+      histories.map(async (history) => {
+        const periods = history.currentOwner ? [...history.owners, history.currentOwner] : history.owners;
+        const acquisitions = periods.filter((period) => period.address.toLowerCase() === address);
+        if (acquisitions.length === 0) return;
+        const sales = await fetchSales(
+          publicClient,
+          history.name,
+          acquisitions.map((period) => period.transactionHash),
+          cache
+        );
+        history.owners = history.owners.map((owner) => withSale(owner, sales));
+        history.currentOwner = history.currentOwner && withSale(history.currentOwner, sales);
+      })
+    );
+  }
+
+  const holdings: ENSHolding[] = [];
+  domains.forEach((data, i) => holdings.push(...getHoldings(histories[i], data.registrations, address)));
+
+  // Most recently acquired first
+  holdings.sort((a, b) => b.acquiredDate.getTime() - a.acquiredDate.getTime());
+
+  return {
+    address,
+    ensName,
+    holdings,
+    truncated: truncated || domains.some((data) => data.truncated),
+  };
+}
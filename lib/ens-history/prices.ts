@@ -0,0 +1,36 @@
+import { readFileSync } from "fs";
+import type { ENSOwner, ENSSale } from "@/types/ens";
+
+// Daily USD prices keyed by UTC date, e.g. { "2023-06-15": { "ETH": 1650.12 } }
+// WETH is priced as ETH; USDC defaults to $1 when the table has no entry for it
+export type PriceTable = Record<string, { ETH?: number; USDC?: number }>;
+
+const priceTables = new Map<string, PriceTable | null>();
+
+// Load the price table JSON file configured by ENS_PRICE_TABLE (null when unset or unreadable)
+export const loadPriceTable = (path = process.env.ENS_PRICE_TABLE): PriceTable | null => {
+  if (!path) return null;
+  if (!priceTables.has(path)) {
+    try {
+      priceTables.set(path, JSON.parse(readFileSync(path, "utf8")) as PriceTable);
+    } catch (error) {
+      console.error(`Failed to load price table from ${path}:`, error);
+      priceTables.set(path, null);
+    }
+  }
+  return priceTables.get(path) ?? null;
+};
+
+// USD value of a sale on the given day, if the table has a price for it
+export const getUsdValue = (sale: ENSSale, date: Date, table: PriceTable): number | undefined => {
+  const prices = table[date.toISOString().slice(0, 10)];
+  const unitPrice = sale.currency === "USDC" ? (prices?.USDC ?? 1) : prices?.ETH;
+  if (unitPrice === undefined) return undefined;
+  return Math.round(parseFloat(sale.price) * unitPrice * 100) / 100;
+};
+
+export const withUsdValue = (owner: ENSOwner, table: PriceTable): ENSOwner => {
+  if (!owner.sale) return owner;
+  const priceUsd = getUsdValue(owner.sale, owner.startDate, table);
+  return priceUsd === undefined ? owner : { ...owner, sale: { ...owner.sale, priceUsd } };
+};
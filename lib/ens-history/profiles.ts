@@ -0,0 +1,90 @@
+import type { Address, PublicClient } from "viem";
+import type { CacheStore } from "./cache";
+import { fetchEFPProfile, type EFPProfile } from "./efp";
+
+// Primary names and avatars change rarely - profiles are cached for a few hours
+const PROFILE_TTL_MS = 6 * 60 * 60 * 1000;
+// Enrichment must not hold up a history: profiles that haven't arrived by then are left out
+// (they're still cached when they land, for the next lookup)
+export const PROFILE_BUDGET_MS = 4000;
+// EFP requests in flight at once
+const EFP_CONCURRENCY = 8;
+
+const profileKey = (address: string) => `profile:${address}`;
+
+export interface FetchOwnerProfilesOptions {
+  publicClient: PublicClient | null; // Without one, primary names come from EFP only
+  cache: CacheStore | null;
+  budgetMs?: number; // Defaults to PROFILE_BUDGET_MS
+}
+
+// Primary name through the UniversalResolver (reverse record, verified against forward resolution)
+// null when the lookup failed, so the profile isn't cached without it
+async function fetchPrimaryName(publicClient: PublicClient, address: string): Promise<string | undefined | null> {
+  try {
+    return (await publicClient.getEnsName({ address: address as Address })) ?? undefined;
+  } catch (error) {
+    console.error(`Error reverse-resolving ${address}:`, error);
+    return null;
+  }
+}
+
+// Primary name, avatar and EFP follower counts for each address, keyed by lowercased address
+// Cached profiles are read in one batch; reverse lookups for the rest are issued together (one
+// JSON-RPC batch) and EFP is queried a few addresses at a time until the budget runs out.
+// Addresses without a profile by then are missing from the map - this is enrichment only
+export async function fetchOwnerProfiles(
+  addresses: string[],
+  options: FetchOwnerProfilesOptions
+): Promise<Map<string, EFPProfile>> {
+  const { publicClient, cache } = options;
+  const unique = [...new Set(addresses.map((address) => address.toLowerCase()))];
+  const profiles = new Map<string, EFPProfile>();
+
+  const cached = cache ? await cache.getMany(unique.map(profileKey)) : unique.map(() => null);
+  const missing = unique.filter((address, i) => {
+    const value = cached[i];
+    if (!value) return true;
+    try {
+      profiles.set(address, JSON.parse(value));
+      return false;
+    } catch {
+      return true;
+    }
+  });
+  if (missing.length === 0) return profiles;
+
+  // Started up front so the transport batches them into a single request
+  const primaryNames = new Map(
+    missing.map((address) => [
+      address,
+      publicClient ? fetchPrimaryName(publicClient, address) : Promise.resolve(undefined),
+    ])
+  );
+
+  const fetchProfile = async (address: string) => {
+    const [primaryName, efp] = await Promise.all([primaryNames.get(address), fetchEFPProfile(address)]);
+    const profile: EFPProfile = { ...efp };
+    if (primaryName) profile.ensName = primaryName;
+    profiles.set(address, profile);
+    if (cache && primaryName !== null) {
+      await cache.set(profileKey(address), JSON.stringify(profile), PROFILE_TTL_MS);
+    }
+  };
+
+  const queue = [...missing];
+  const worker = async () => {
+    for (let address = queue.shift(); address; address = queue.shift()) await fetchProfile(address);
+  };
+  const work = Promise.all(Array.from({ length: Math.min(EFP_CONCURRENCY, queue.length) }, worker));
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const budget = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, options.budgetMs ?? PROFILE_BUDGET_MS);
+  });
+  await Promise.race([work, budget]);
+  clearTimeout(timer);
+
+  // Copy, so profiles landing after the budget don't change what the caller got
+  return new Map(profiles);
+}
@@ -0,0 +1,360 @@
+import { namehash } from "viem/ens";
+import { ENSHistoryError } from "./errors";
+import type { LeaderboardIndex } from "./leaderboard";
+import { decodeName, loadLabels } from "./labels";
+import { isEncodedLabel, isNormalizedENSName } from "./names";
+import { ZERO_ADDRESS } from "./normalize";
+
+// Boards computed from the leaderboard index
+// - changes: most ownership changes
+// - sales: most marketplace sales
+// - price: highest sale price (ETH)
+// - holding: longest continuous holding, ongoing ones included
+// - reregistrations: most registrations after the name had expired and been released
+// - flips: fastest resales - holdings bought and sold again on a marketplace (a flip, as on the
+//   address board), shortest first
+export const LEADERBOARD_CATEGORIES = ["changes", "sales", "price", "holding", "reregistrations", "flips"] as const;
+export type LeaderboardCategory = (typeof LEADERBOARD_CATEGORIES)[number];
+
+export type LeaderboardUnit = "count" | "eth" | "duration";
+
+// What an entry's value measures, per category
+export const LEADERBOARD_UNITS: Record<LeaderboardCategory, LeaderboardUnit> = {
+  changes: "count",
+  sales: "count",
+  price: "eth",
+  holding: "duration",
+  reregistrations: "count",
+  flips: "duration",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only events within the window count; holdings count when they were still held during it
+export const LEADERBOARD_WINDOWS = { "24h": DAY_MS, "7d": 7 * DAY_MS, "30d": 30 * DAY_MS, all: null };
+export type LeaderboardWindow = keyof typeof LEADERBOARD_WINDOWS;
+
+// Collector clubs (.eth second-level names only)
+export const NAME_CLUBS = ["3-letter", "999", "10k", "emoji"] as const;
+export type NameClub = (typeof NAME_CLUBS)[number];
+
+// Built at runtime: property escapes need a newer compile target than the project's
+const EMOJI_ONLY = new RegExp("^(?:\\p{Extended_Pictographic}|\\p{Emoji_Component}|\\u200d|\\ufe0f)+$", "u");
+const HAS_EMOJI = new RegExp("\\p{Extended_Pictographic}|\\p{Regional_Indicator}", "u");
+
+export function getClub(name: string): NameClub | undefined {
+  const labels = name.split(".");
+  if (labels.length !== 2 || labels[1] !== "eth") return undefined;
+  const [label] = labels;
+  if (/^[0-9]{3}$/.test(label)) return "999";
+  if (/^[0-9]{4}$/.test(label)) return "10k";
+  if (/^[a-z]{3}$/.test(label)) return "3-letter";
+  if (EMOJI_ONLY.test(label) && HAS_EMOJI.test(label)) return "emoji";
+  return undefined;
+}
+
+export interface LeaderboardQuery {
+  category: LeaderboardCategory;
+  window: LeaderboardWindow;
+  club?: NameClub;
+  limit: number;
+  offset: number;
+}
+
+export const LEADERBOARD_DEFAULT_LIMIT = 10;
+export const LEADERBOARD_MAX_LIMIT = 100;
+
+const isOneOf = <T extends string>(values: readonly T[], value: string): value is T =>
+  (values as readonly string[]).includes(value);
+
+// Query parameters shared by the domain and address boards: category (one of `categories`),
+// window, club, limit and offset
+// Throws ENSHistoryError(400) for an unknown or out-of-range value
+export function parseLeaderboardParams<C extends string>(
+  searchParams: URLSearchParams,
+  categories: readonly C[],
+  defaultCategory: C
+): { category: C; window: LeaderboardWindow; club: NameClub | null; limit: number; offset: number } {
+  const category = searchParams.get("category") ?? defaultCategory;
+  const window = searchParams.get("window") ?? "all";
+  const club = searchParams.get("club");
+  const limit = Number(searchParams.get("limit") ?? LEADERBOARD_DEFAULT_LIMIT);
+  const offset = Number(searchParams.get("offset") ?? 0);
+
+  if (!isOneOf(categories, category)) {
+    throw new ENSHistoryError(`category must be one of ${categories.join(", ")}`, 400);
+  }
+  const windows = Object.keys(LEADERBOARD_WINDOWS) as LeaderboardWindow[];
+  if (!isOneOf(windows, window)) {
+    throw new ENSHistoryError(`window must be one of ${windows.join(", ")}`, 400);
+  }
+  if (club !== null && !isOneOf(NAME_CLUBS, club)) {
+    throw new ENSHistoryError(`club must be one of ${NAME_CLUBS.join(", ")}`, 400);
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > LEADERBOARD_MAX_LIMIT) {
+    throw new ENSHistoryError(`limit must be between 1 and ${LEADERBOARD_MAX_LIMIT}`, 400);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new ENSHistoryError("offset must be a non-negative integer", 400);
+  }
+  return { category, window, club, limit, offset };
+}
+
+export interface LeaderboardEntry {
+  name: string;
+  value: number; // A count, an ETH amount or a duration in milliseconds - see LEADERBOARD_UNITS
+  address?: string; // The holder, for holding and flips
+  transactionHash?: string; // The sale, for price and flips
+}
+
+interface RankingRow {
+  name: string | null;
+  value: number;
+  address?: string;
+  transaction_id?: string;
+}
+
+// Shared filter on the joined domains row `d`
+const CLUB_FILTER = "(@club IS NULL OR d.club = @club)";
+
+// One query per category and window; all-time counts come from the per-domain totals
+// Parameters: @since (unix seconds), @now (unix seconds), @club
+const rankingSql = (category: LeaderboardCategory, windowed: boolean): string => {
+  switch (category) {
+    case "changes":
+      return windowed
+        ? `SELECT d.name, COUNT(*) AS value FROM ownership_changes c JOIN domains d ON d.id = c.domain_id
+           WHERE c.previous_owner IS NOT NULL AND c.timestamp >= @since AND ${CLUB_FILTER}
+           GROUP BY c.domain_id ORDER BY value DESC`
+        : `SELECT d.name, d.changes AS value FROM domains d
+           WHERE d.changes > 0 AND ${CLUB_FILTER} ORDER BY d.changes DESC`;
+    case "sales":
+      return windowed
+        ? `SELECT d.name, COUNT(*) AS value FROM ownership_changes c JOIN domains d ON d.id = c.domain_id
+           WHERE c.marketplace IS NOT NULL AND c.timestamp >= @since AND ${CLUB_FILTER}
+           GROUP BY c.domain_id ORDER BY value DESC`
+        : `SELECT d.name, d.sales AS value FROM domains d
+           WHERE d.sales > 0 AND ${CLUB_FILTER} ORDER BY d.sales DESC`;
+    case "price":
+      // SQLite takes the bare columns from the row holding the MAX
+      return `SELECT d.name, MAX(c.price_eth) AS value, c.transaction_id FROM ownership_changes c
+              JOIN domains d ON d.id = c.domain_id
+              WHERE c.price_eth IS NOT NULL AND c.timestamp >= @since AND ${CLUB_FILTER}
+              GROUP BY c.domain_id ORDER BY value DESC`;
+    case "holding":
+      return `SELECT d.name, MAX(COALESCE(c.ended_at, @now) - c.timestamp) AS value, c.owner AS address
+              FROM ownership_changes c JOIN domains d ON d.id = c.domain_id
+              WHERE (c.ended_at IS NULL OR c.ended_at >= @since) AND c.owner != '${ZERO_ADDRESS}' AND ${CLUB_FILTER}
+              GROUP BY c.domain_id ORDER BY value DESC`;
+    case "reregistrations":
+      return windowed
+        ? `SELECT d.name, COUNT(*) AS value FROM registrations r JOIN domains d ON d.id = r.domain_id
+           WHERE r.reregistration = 1 AND r.timestamp >= @since AND ${CLUB_FILTER}
+           GROUP BY r.domain_id ORDER BY value DESC`
+        : `SELECT d.name, d.registrations - 1 AS value FROM domains d
+           WHERE d.registrations > 1 AND ${CLUB_FILTER} ORDER BY d.registrations DESC`;
+    case "flips":
+      return `SELECT d.name, n.timestamp - c.timestamp AS value, c.owner AS address, n.transaction_id
+              FROM ownership_changes c
+              JOIN ownership_changes n ON n.id = c.next_id
+              JOIN domains d ON d.id = c.domain_id
+              WHERE c.marketplace IS NOT NULL AND n.marketplace IS NOT NULL AND n.timestamp >= @since AND ${CLUB_FILTER}
+              ORDER BY value ASC`;
+  }
+};
+
+// Encoded names looked up per round trip to the shared label cache
+const DECODE_SLICE = 500;
+
+// One page of a board, best first
+// Names are decoded with the labels confirmed so far (see loadLabels); names that still aren't
+// normalized (ENSIP-15), e.g. unresolved "[labelhash]" labels, are skipped before paging, so
+// `offset` counts listed entries.
+// The query runs once: rows are read until enough names are listable as they are, keeping the
+// encoded ones met on the way, whose labels are looked up once the statement is closed (it can't
+// stay open across awaits)
+export async function getDomainRanking(index: LeaderboardIndex, query: LeaderboardQuery): Promise<LeaderboardEntry[]> {
+  const windowMs = LEADERBOARD_WINDOWS[query.window];
+  const now = Math.floor(Date.now() / 1000);
+  const statement = index.db.prepare<[{ since: number; now: number; club: string | null }], RankingRow>(
+    rankingSql(query.category, windowMs !== null)
+  );
+
+  const params = { since: windowMs === null ? 0 : now - windowMs / 1000, now, club: query.club ?? null };
+
+  const needed = query.offset + query.limit;
+  const rows: RankingRow[] = [];
+  const encoded: string[] = [];
+  let listable = 0;
+  for (const row of statement.iterate(params)) {
+    if (!row.name) continue;
+    if (isNormalizedENSName(decodeName(row.name))) {
+      listable++;
+    } else if (row.name.split(".").some(isEncodedLabel)) {
+      encoded.push(row.name);
+    } else {
+      continue;
+    }
+    rows.push(row);
+    if (listable >= needed) break;
+  }
+  for (let i = 0; i < encoded.length; i += DECODE_SLICE) {
+    await loadLabels(encoded.slice(i, i + DECODE_SLICE));
+  }
+
+  const toValue = (row: RankingRow) => (LEADERBOARD_UNITS[query.category] === "duration" ? row.value * 1000 : row.value);
+  return rows
+    .map((row) => ({ row, name: decodeName(row.name!) }))
+    .filter(({ name }) => isNormalizedENSName(name))
+    .slice(query.offset, needed)
+    .map(({ row, name }) => ({
+      name,
+      value: toValue(row),
+      address: row.address,
+      transactionHash: row.transaction_id,
+    }));
+}
+
+// Boards of owners (effective owners, see resolveEffectiveOwner), computed from the same index
+// - acquisitions: most names acquired - registrations, transfers and purchases
+// - flips: most names bought on a marketplace and sold again on one within `flipDays` (the
+//   domain board's flips)
+// - held: most names currently held (the window doesn't apply)
+// - holding: longest average holding, over addresses with at least MIN_HOLDINGS_FOR_AVERAGE holdings
+export const ADDRESS_LEADERBOARD_CATEGORIES = ["acquisitions", "flips", "held", "holding"] as const;
+export type AddressLeaderboardCategory = (typeof ADDRESS_LEADERBOARD_CATEGORIES)[number];
+
+export const ADDRESS_LEADERBOARD_UNITS: Record<AddressLeaderboardCategory, LeaderboardUnit> = {
+  acquisitions: "count",
+  flips: "count",
+  held: "count",
+  holding: "duration",
+};
+
+export const DEFAULT_FLIP_DAYS = 30;
+// A single long holding says little about how an address trades
+export const MIN_HOLDINGS_FOR_AVERAGE = 3;
+
+export interface AddressLeaderboardQuery {
+  category: AddressLeaderboardCategory;
+  window: LeaderboardWindow;
+  club?: NameClub;
+  flipDays?: number; // Defaults to DEFAULT_FLIP_DAYS
+  limit: number;
+  offset: number;
+}
+
+export interface AddressLeaderboardEntry {
+  address: string;
+  value: number; // A count or a duration in milliseconds - see ADDRESS_LEADERBOARD_UNITS
+  holdings?: number; // The holdings averaged, for holding
+  ensName?: string; // Primary name and avatar, filled in by the API
+  avatar?: string;
+}
+
+interface AddressRankingRow {
+  address: string;
+  value: number;
+  holdings?: number;
+}
+
+// Parameters: @since, @now (unix seconds), @club, @maxFlip (seconds), @minHoldings, @limit, @offset
+const addressRankingSql = (category: AddressLeaderboardCategory): string => {
+  const page = "LIMIT @limit OFFSET @offset";
+  switch (category) {
+    case "acquisitions":
+      return `SELECT c.owner AS address, COUNT(*) AS value FROM ownership_changes c JOIN domains d ON d.id = c.domain_id
+              WHERE c.owner != '${ZERO_ADDRESS}' AND c.timestamp >= @since AND ${CLUB_FILTER}
+              GROUP BY c.owner ORDER BY value DESC ${page}`;
+    case "flips":
+      return `SELECT c.owner AS address, COUNT(*) AS value FROM ownership_changes c
+              JOIN ownership_changes n ON n.id = c.next_id
+              JOIN domains d ON d.id = c.domain_id
+              WHERE c.marketplace IS NOT NULL AND n.marketplace IS NOT NULL AND n.timestamp - c.timestamp <= @maxFlip
+                AND n.timestamp >= @since AND c.owner != '${ZERO_ADDRESS}' AND ${CLUB_FILTER}
+              GROUP BY c.owner ORDER BY value DESC ${page}`;
+    case "held":
+      return `SELECT d.owner AS address, COUNT(*) AS value FROM domains d
+              WHERE d.owner IS NOT NULL AND d.owner != '${ZERO_ADDRESS}' AND ${CLUB_FILTER}
+              GROUP BY d.owner ORDER BY value DESC ${page}`;
+    case "holding":
+      return `SELECT c.owner AS address, AVG(COALESCE(c.ended_at, @now) - c.timestamp) AS value, COUNT(*) AS holdings
+              FROM ownership_changes c JOIN domains d ON d.id = c.domain_id
+              WHERE (c.ended_at IS NULL OR c.ended_at >= @since) AND c.owner != '${ZERO_ADDRESS}' AND ${CLUB_FILTER}
+              GROUP BY c.owner HAVING COUNT(*) >= @minHoldings ORDER BY value DESC ${page}`;
+  }
+};
+
+// One page of an address board, best first
+export function getAddressRanking(index: LeaderboardIndex, query: AddressLeaderboardQuery): AddressLeaderboardEntry[] {
+  const windowMs = LEADERBOARD_WINDOWS[query.window];
+  const now = Math.floor(Date.now() / 1000);
+  const rows = index.db
+    .prepare<
+      [{ since: number; now: number; club: string | null; maxFlip: number; minHoldings: number; limit: number; offset: number }],
+      AddressRankingRow
+    >(addressRankingSql(query.category))
+    .all({
+      since: windowMs === null ? 0 : now - windowMs / 1000,
+      now,
+      club: query.club ?? null,
+      maxFlip: (query.flipDays ?? DEFAULT_FLIP_DAYS) * 24 * 60 * 60,
+      minHoldings: MIN_HOLDINGS_FOR_AVERAGE,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+  return rows.map((row) => ({
+    address: row.address,
+    value: ADDRESS_LEADERBOARD_UNITS[query.category] === "duration" ? row.value * 1000 : row.value,
+    holdings: row.holdings,
+  }));
+}
+
+// How often a name changes hands compared with other names: the percentile of its ownership
+// changes among all .eth second-level names in the index (ties count half)
+export interface ChurnScore {
+  changes: number;
+  score: number; // 0-100
+  compared: number; // Names in the distribution
+}
+
+// The distribution is a histogram of changes (a few hundred distinct values), rebuilt hourly
+const DISTRIBUTION_TTL_MS = 60 * 60 * 1000;
+const distributions = new WeakMap<LeaderboardIndex, { builtAt: number; histogram: Array<{ changes: number; count: number }> }>();
+
+const getChangesDistribution = (index: LeaderboardIndex) => {
+  const cached = distributions.get(index);
+  if (cached && Date.now() - cached.builtAt < DISTRIBUTION_TTL_MS) return cached.histogram;
+  const histogram = index.db
+    .prepare<[], { changes: number; count: number }>(`
+      SELECT changes, COUNT(*) AS count FROM domains
+      WHERE owner IS NOT NULL AND name LIKE '%.eth' AND instr(substr(name, 1, length(name) - 4), '.') = 0
+      GROUP BY changes
+    `)
+    .all();
+  distributions.set(index, { builtAt: Date.now(), histogram });
+  return histogram;
+};
+
+// null when the name isn't in the index (yet)
+export function getChurnScore(index: LeaderboardIndex, name: string): ChurnScore | null {
+  const row = index.db
+    .prepare<[string], { changes: number }>("SELECT changes FROM domains WHERE id = ?")
+    .get(namehash(name));
+  if (!row) return null;
+
+  let below = 0;
+  let equal = 0;
+  let compared = 0;
+  for (const bucket of getChangesDistribution(index)) {
+    compared += bucket.count;
+    if (bucket.changes < row.changes) below += bucket.count;
+    else if (bucket.changes === row.changes) equal += bucket.count;
+  }
+  return {
+    changes: row.changes,
+    score: compared === 0 ? 0 : Math.round(((below + equal / 2) / compared) * 100),
+    compared,
+  };
+}
@@ -0,0 +1,251 @@
+import type { GraphQLClient } from "graphql-request";
+import type { PublicClient } from "viem";
+import type { ENSRecordChange, ENSRecordsHistory } from "@/types/ens";
+import { getCache, type CacheStore } from "./cache";
+import { ENSHistoryError } from "./errors";
+import { normalizeENSName } from "./names";
+import { ZERO_ADDRESS } from "./normalize";
+import { getLogIndex } from "./roles";
+import { createSubgraphClient, fetchAllPages, fetchDomain } from "./subgraph";
+import { createRpcClient, resolveTransferTimestamps } from "./timestamps";
+
+const RECORD_EVENT_FIELDS = `
+        id
+        blockNumber
+        transactionID
+`;
+
+// Resolver events of one domain, paginated by id
+// Clearing the resolver stores a reference to a resolver entity that doesn't exist,
+// so cleared resolvers are queried separately without selecting it
+const RECORD_QUERIES = {
+  resolver: `
+    query GetNewResolvers($domainId: String!, $cursor: String!, $first: Int!) {
+      rows: newResolvers(
+        where: { domain: $domainId, resolver_not: "${ZERO_ADDRESS}", id_gt: $cursor }
+        orderBy: id
+        first: $first
+      ) {
+        ${RECORD_EVENT_FIELDS}
+        resolver {
+          address
+        }
+      }
+    }
+  `,
+  resolverCleared: `
+    query GetClearedResolvers($domainId: String!, $cursor: String!, $first: Int!) {
+      rows: newResolvers(
+        where: { domain: $domainId, resolver: "${ZERO_ADDRESS}", id_gt: $cursor }
+        orderBy: id
+        first: $first
+      ) {
+        ${RECORD_EVENT_FIELDS}
+      }
+    }
+  `,
+  addr: `
+    query GetAddrChangeds($domainId: String!, $cursor: String!, $first: Int!) {
+      rows: addrChangeds(
+        where: { resolver_: { domain: $domainId }, id_gt: $cursor }
+        orderBy: id
+        first: $first
+      ) {
+        ${RECORD_EVENT_FIELDS}
+        resolver {
+          address
+        }
+        addr {
+          id
+        }
+      }
+    }
+  `,
+  multiaddr: `
+    query GetMultiaddrChangeds($domainId: String!, $cursor: String!, $first: Int!) {
+      rows: multiaddrChangeds(
+        where: { resolver_: { domain: $domainId }, id_gt: $cursor }
+        orderBy: id
+        first: $first
+      ) {
+        ${RECORD_EVENT_FIELDS}
+        resolver {
+          address
+        }
+        coinType
+        addr
+      }
+    }
+  `,
+  contenthash: `
+    query GetContenthashChangeds($domainId: String!, $cursor: String!, $first: Int!) {
+      rows: contenthashChangeds(
+        where: { resolver_: { domain: $domainId }, id_gt: $cursor }
+        orderBy: id
+        first: $first
+      ) {
+        ${RECORD_EVENT_FIELDS}
+        resolver {
+          address
+        }
+        hash
+      }
+    }
+  `,
+  text: `
+    query GetTextChangeds($domainId: String!, $cursor: String!, $first: Int!) {
+      rows: textChangeds(
+        where: { resolver_: { domain: $domainId }, id_gt: $cursor }
+        orderBy: id
+        first: $first
+      ) {
+        ${RECORD_EVENT_FIELDS}
+        resolver {
+          address
+        }
+        key
+        value
+      }
+    }
+  `,
+};
+
+interface RecordEventRow {
+  id: string;
+  blockNumber: string;
+  transactionID: string;
+  resolver?: { address: string };
+  addr?: { id: string } | string | null;
+  coinType?: string;
+  hash?: string | null;
+  key?: string;
+  value?: string | null;
+}
+
+// A record change before its date is known, with its subgraph id for ordering
+interface RawRecordChange {
+  id: string;
+  change: Omit<ENSRecordChange, "date" | "estimated" | "isActive">;
+}
+
+const ETH_COIN_TYPE = "60";
+
+const toRawChange = (
+  type: ENSRecordChange["type"],
+  row: RecordEventRow,
+  fields: Partial<RawRecordChange["change"]> = {}
+): RawRecordChange => ({
+  id: row.id,
+  change: {
+    type,
+    transactionHash: row.transactionID,
+    blockNumber: BigInt(row.blockNumber),
+    resolver: row.resolver?.address ?? ZERO_ADDRESS,
+    ...fields,
+  },
+});
+
+// Fetch stage for records: every resolver, address, contenthash and text change of a domain, in chain order
+// `truncated` is set when any of the event lists hit the page cap
+async function fetchRecordChanges(
+  client: GraphQLClient,
+  domainId: string
+): Promise<{ changes: RawRecordChange[]; truncated: boolean }> {
+  const pages = await Promise.all(
+    [
+      RECORD_QUERIES.resolver,
+      RECORD_QUERIES.resolverCleared,
+      RECORD_QUERIES.addr,
+      RECORD_QUERIES.multiaddr,
+      RECORD_QUERIES.contenthash,
+      RECORD_QUERIES.text,
+    ].map((query) => fetchAllPages<RecordEventRow>(client, query, { domainId }))
+  );
+  const [resolvers, cleared, addrs, multiaddrs, contenthashes, texts] = pages.map((page) => page.rows);
+
+  // Current resolvers emit both AddrChanged and AddressChanged(60) for ETH - keep only the former
+  const addrTransactions = new Set(addrs.map((row) => row.transactionID));
+
+  const changes: RawRecordChange[] = [
+    ...resolvers.map((row) => toRawChange("resolver", row)),
+    ...cleared.map((row) => toRawChange("resolver", row)),
+    ...addrs.map((row) =>
+      toRawChange("addr", row, {
+        coinType: ETH_COIN_TYPE,
+        value: typeof row.addr === "object" && row.addr ? row.addr.id : undefined,
+      })
+    ),
+    ...multiaddrs
+      .filter((row) => !(String(row.coinType) === ETH_COIN_TYPE && addrTransactions.has(row.transactionID)))
+      .map((row) =>
+        toRawChange("addr", row, {
+          coinType: String(row.coinType),
+          value: typeof row.addr === "string" ? row.addr : undefined,
+        })
+      ),
+    ...contenthashes.map((row) => toRawChange("contenthash", row, { value: row.hash ?? undefined })),
+    ...texts.map((row) => toRawChange("text", row, { key: row.key, value: row.value ?? undefined })),
+  ];
+
+  return {
+    changes: changes.sort(
+      (a, b) => Number(a.change.blockNumber - b.change.blockNumber) || getLogIndex(a.id) - getLogIndex(b.id)
+    ),
+    truncated: pages.some((page) => page.truncated),
+  };
+}
+
+// Mark changes made on a resolver other than the one the name was using at the time
+const withActiveResolver = (changes: Omit<ENSRecordChange, "isActive">[]): ENSRecordChange[] => {
+  let currentResolver: string | null = null;
+  return changes.map((change) => {
+    if (change.type === "resolver") {
+      currentResolver = change.resolver.toLowerCase();
+      return { ...change, isActive: true };
+    }
+    return { ...change, isActive: change.resolver.toLowerCase() === currentResolver };
+  });
+};
+
+export interface GetRecordsHistoryOptions {
+  subgraphClient?: GraphQLClient;
+  publicClient?: PublicClient | null; // Defaults to NEXT_PUBLIC_RPC_URL; null forces estimated timestamps
+  cache?: CacheStore | null; // Defaults to the ENS_CACHE store; null disables caching
+}
+
+// Fetch the resolver and records history of an ENS name
+// Throws ENSHistoryError with status 404 when the domain doesn't exist and 429 when rate-limited
+export async function getRecordsHistory(
+  ensName: string,
+  options: GetRecordsHistoryOptions = {}
+): Promise<ENSRecordsHistory> {
+  const name = normalizeENSName(ensName);
+  const subgraphClient = options.subgraphClient ?? createSubgraphClient();
+  const publicClient = options.publicClient !== undefined ? options.publicClient : createRpcClient();
+  const cache = options.cache !== undefined ? options.cache : await getCache();
+
+  const found = await fetchDomain(subgraphClient, name);
+  if (!found) {
+    throw new ENSHistoryError(`ENS domain "${name}" does not exist`, 404);
+  }
+
+  const { changes: rawChanges, truncated } = await fetchRecordChanges(subgraphClient, found.domain.id);
+  const timestamps = await resolveTransferTimestamps(
+    rawChanges.map(({ change }) => ({ blockNumber: change.blockNumber.toString() })),
+    publicClient,
+    cache
+  );
+
+  const changes = withActiveResolver(
+    rawChanges.map(({ change }, i) => ({ ...change, ...timestamps[i] }))
+  );
+  const resolverChanges = changes.filter((change) => change.type === "resolver");
+  const resolver = resolverChanges[resolverChanges.length - 1]?.resolver;
+
+  return {
+    name,
+    resolver: resolver && resolver !== ZERO_ADDRESS ? resolver : undefined,
+    changes,
+    truncated,
+  };
+}
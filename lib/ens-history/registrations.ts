@@ -0,0 +1,102 @@
+import { formatEther, parseAbi, parseEventLogs, type Hash, type PublicClient } from "viem";
+import { labelhash } from "viem/ens";
+import type { ENSRegistrationEvent } from "@/types/ens";
+import { parseSubgraphTimestamp, type SubgraphRegistrationEvent } from "./subgraph";
+import type { BlockTimestamp } from "./timestamps";
+
+// ETHRegistrarController events, every controller generation
+// (legacy controllers report a single cost; later ones split base cost and premium)
+export const CONTROLLER_EVENTS_ABI = parseAbi([
+  "event NameRegistered(string name, bytes32 indexed label, address indexed owner, uint256 cost, uint256 expires)",
+  "event NameRegistered(string name, bytes32 indexed label, address indexed owner, uint256 baseCost, uint256 premium, uint256 expires)",
+  "event NameRegistered(string label, bytes32 indexed labelhash, address indexed owner, uint256 baseCost, uint256 premium, uint256 expires, bytes32 referrer)",
+  "event NameRenewed(string name, bytes32 indexed label, uint256 cost, uint256 expires)",
+  "event NameRenewed(string label, bytes32 indexed labelhash, uint256 cost, uint256 expires, bytes32 referrer)",
+]);
+
+// What the transaction of a registration event tells us beyond the subgraph
+export interface RegistrationPayment {
+  payer: string;
+  baseCost?: string;
+  premium?: string;
+}
+
+// Registration-events stage: registrations and renewals with their dates and the duration each added
+// `timestamps` must be aligned with `events`
+export function getRegistrationEvents(
+  events: SubgraphRegistrationEvent[],
+  timestamps: BlockTimestamp[]
+): ENSRegistrationEvent[] {
+  const result: ENSRegistrationEvent[] = [];
+  let previousExpiry: Date | null = null;
+
+  events.forEach((event, i) => {
+    const expiryDate = parseSubgraphTimestamp(event.expiryDate);
+    if (!expiryDate) return;
+    const { date, estimated } = timestamps[i];
+
+    const isRegistration = event.type === "registered";
+    const addedFrom = isRegistration ? date : previousExpiry;
+    result.push({
+      type: isRegistration ? "registration" : "renewal",
+      date,
+      transactionHash: event.transactionID,
+      blockNumber: BigInt(event.blockNumber),
+      registrant: event.registrant?.id,
+      expiryDate,
+      durationAdded: addedFrom ? expiryDate.getTime() - addedFrom.getTime() : undefined,
+      estimated,
+    });
+    previousExpiry = expiryDate;
+  });
+
+  return result;
+}
+
+// Read the payer and the controller's cost for each registration event's transaction
+// Costs are only available for .eth second-level names; failed lookups are left out of the map
+export async function fetchRegistrationPayments(
+  publicClient: PublicClient,
+  name: string,
+  transactionHashes: string[]
+): Promise<Map<string, RegistrationPayment>> {
+  const labels = name.split(".");
+  const label = labels.length === 2 && labels[1] === "eth" ? labelhash(labels[0]) : null;
+  const uniqueHashes = [...new Set(transactionHashes.filter(Boolean))];
+  const receipts = await Promise.all(
+    uniqueHashes.map((hash) =>
+      publicClient.getTransactionReceipt({ hash: hash as Hash }).catch(() => null)
+    )
+  );
+
+  const payments = new Map<string, RegistrationPayment>();
+  uniqueHashes.forEach((hash, i) => {
+    const receipt = receipts[i];
+    if (!receipt) return;
+
+    const payment: RegistrationPayment = { payer: receipt.from };
+    // Bulk renewals emit one event per name, so match on the (first indexed) labelhash
+    const event = parseEventLogs({ abi: CONTROLLER_EVENTS_ABI, logs: receipt.logs }).find(
+      (log) => label && log.topics[1] === label
+    );
+    if (event) {
+      const { args } = event;
+      if ("premium" in args) {
+        payment.baseCost = formatEther(args.baseCost);
+        payment.premium = formatEther(args.premium);
+      } else {
+        payment.baseCost = formatEther(args.cost);
+      }
+    }
+    payments.set(hash, payment);
+  });
+  return payments;
+}
+
+export const withPayment = (
+  event: ENSRegistrationEvent,
+  payments: Map<string, RegistrationPayment>
+): ENSRegistrationEvent => {
+  const payment = payments.get(event.transactionHash);
+  return payment ? { ...event, ...payment } : event;
+};
@@ -0,0 +1,100 @@
+import type { ENSDomain, ENSOwnerRole, ENSRoleChange } from "@/types/ens";
+import type { DomainHistoryData, SubgraphDomain, SubgraphTransfer } from "./subgraph";
+import type { BlockTimestamp } from "./timestamps";
+
+// ENS NameWrapper (mainnet) - holds the registry and registrar ownership of every wrapped name
+export const NAME_WRAPPER_ADDRESS = "0xd4416b13d2b3a9abae7acd5d6c2bbdbe25686401";
+
+export const ROLE_LABELS: Record<ENSOwnerRole, string> = {
+  registrant: "Registrant",
+  manager: "Manager",
+  wrappedOwner: "Wrapped owner",
+};
+
+// An ownership event of any role, in the transfer shape used by the pipeline
+export interface OwnershipEvent extends SubgraphTransfer {
+  role: ENSOwnerRole;
+}
+
+type RoleHolders = Pick<ENSDomain, ENSOwnerRole>;
+
+// Subgraph event ids are `${blockNumber}-${logIndex}`
+export const getLogIndex = (id: string) => {
+  const logIndex = parseInt(id.split("-").pop() ?? "");
+  return isNaN(logIndex) ? 0 : logIndex;
+};
+
+// Every ownership event of a domain (all three roles) in chain order
+// This is the list block timestamps are resolved for
+export function getOwnershipEvents(data: DomainHistoryData): OwnershipEvent[] {
+  const events: OwnershipEvent[] = [
+    ...data.transfers.map((transfer) => ({ ...transfer, role: "manager" as const })),
+    ...data.registrantTransfers.map((transfer) => ({ ...transfer, role: "registrant" as const })),
+    ...data.wrappedTransfers.map((transfer) => ({ ...transfer, role: "wrappedOwner" as const })),
+  ];
+  return events.sort(
+    (a, b) => Number(a.blockNumber) - Number(b.blockNumber) || getLogIndex(a.id) - getLogIndex(b.id)
+  );
+}
+
+// The address that actually controls the name:
+// the wrapped owner while the NameWrapper holds it, otherwise the registrant, otherwise the manager
+export const resolveEffectiveOwner = (roles: RoleHolders): string | undefined => {
+  const wrapped = [roles.manager, roles.registrant].some(
+    (address) => address?.toLowerCase() === NAME_WRAPPER_ADDRESS
+  );
+  if (wrapped && roles.wrappedOwner) return roles.wrappedOwner;
+  return roles.registrant ?? roles.manager;
+};
+
+// Current holder of each role according to the domain entity
+export const getCurrentRoles = (domain: SubgraphDomain): RoleHolders => ({
+  manager: domain.owner.id,
+  registrant: domain.registrant?.id,
+  wrappedOwner: domain.wrappedOwner?.id,
+});
+
+export const getEffectiveOwner = (domain: SubgraphDomain): string =>
+  resolveEffectiveOwner(getCurrentRoles(domain)) ?? domain.owner.id;
+
+// Role stage: collapse role events into effective-owner transfers
+// Events are grouped by transaction so that wrapping/unwrapping (which moves several roles
+// through the NameWrapper in one transaction) doesn't produce intermediate owners.
+// `timestamps` must be aligned with `events`; the returned timestamps are aligned with the transfers.
+export function getEffectiveTransfers(
+  events: OwnershipEvent[],
+  timestamps: BlockTimestamp[]
+): { transfers: SubgraphTransfer[]; timestamps: BlockTimestamp[] } {
+  const transfers: SubgraphTransfer[] = [];
+  const effectiveTimestamps: BlockTimestamp[] = [];
+  const holders: RoleHolders = {};
+  let previousOwner: string | undefined;
+
+  events.forEach((event, i) => {
+    holders[event.role] = event.owner.id;
+
+    // Only evaluate once the whole transaction has been applied
+    const next = events[i + 1];
+    if (next && next.transactionID === event.transactionID) return;
+
+    const owner = resolveEffectiveOwner(holders);
+    if (!owner || owner.toLowerCase() === previousOwner?.toLowerCase()) return;
+
+    previousOwner = owner;
+    transfers.push({ ...event, owner: { id: owner } });
+    effectiveTimestamps.push(timestamps[i]);
+  });
+
+  return { transfers, timestamps: effectiveTimestamps };
+}
+
+// Role changes with their resolved dates
+export const getRoleChanges = (events: OwnershipEvent[], timestamps: BlockTimestamp[]): ENSRoleChange[] =>
+  events.map((event, i) => ({
+    role: event.role,
+    address: event.owner.id,
+    date: timestamps[i].date,
+    transactionHash: event.transactionID,
+    blockNumber: BigInt(event.blockNumber),
+    estimated: timestamps[i].estimated,
+  }));
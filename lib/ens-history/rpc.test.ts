@@ -0,0 +1,207 @@
+import type { PublicClient } from "viem";
+import { labelhash, namehash } from "viem/ens";
+import { describe, expect, it, vi } from "vitest";
+import { ZERO_ADDRESS } from "./normalize";
+import { NAME_WRAPPER_ADDRESS } from "./roles";
+import { ENS_REGISTRY_ADDRESS, fetchDomainHistoryFromRpc } from "./rpc";
+import { BASE_REGISTRAR_ADDRESS } from "./sales";
+import type { DomainHistoryData } from "./subgraph";
+
+const NAME = "example.eth";
+const NODE = namehash(NAME);
+const TOKEN_ID = BigInt(labelhash("example"));
+const WRAPPED_ID = BigInt(NODE);
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const CAROL = "0x3333333333333333333333333333333333333333";
+const EXPIRY = BigInt(1_900_000_000);
+const LATEST_BLOCK = BigInt(18_000_000);
+
+interface FixtureLog {
+  address: string;
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  logIndex: number;
+}
+
+const tx = (blockNumber: bigint) => `0x${blockNumber.toString(16).padStart(64, "0")}`;
+const timestampOf = (blockNumber: bigint) => BigInt(1_500_000_000) + blockNumber;
+
+// example.eth registered to Alice, wrapped, sold to Bob, then moved to Carol in a batch
+// Alongside it, Alice moves an unrelated wrapped name that must not be picked up
+const LOGS: FixtureLog[] = [
+  {
+    address: ENS_REGISTRY_ADDRESS,
+    eventName: "NewOwner",
+    args: { node: namehash("eth"), label: labelhash("example"), owner: ALICE },
+    blockNumber: BigInt(10_000_000),
+    logIndex: 0,
+  },
+  {
+    address: BASE_REGISTRAR_ADDRESS,
+    eventName: "Transfer",
+    args: { from: ZERO_ADDRESS, to: ALICE, tokenId: TOKEN_ID },
+    blockNumber: BigInt(10_000_000),
+    logIndex: 1,
+  },
+  {
+    address: BASE_REGISTRAR_ADDRESS,
+    eventName: "NameRegistered",
+    args: { id: TOKEN_ID, owner: ALICE, expires: EXPIRY },
+    blockNumber: BigInt(10_000_000),
+    logIndex: 2,
+  },
+  {
+    address: BASE_REGISTRAR_ADDRESS,
+    eventName: "Transfer",
+    args: { from: ALICE, to: NAME_WRAPPER_ADDRESS, tokenId: TOKEN_ID },
+    blockNumber: BigInt(17_000_000),
+    logIndex: 3,
+  },
+  {
+    address: ENS_REGISTRY_ADDRESS,
+    eventName: "Transfer",
+    args: { node: NODE, owner: NAME_WRAPPER_ADDRESS },
+    blockNumber: BigInt(17_000_000),
+    logIndex: 4,
+  },
+  {
+    address: NAME_WRAPPER_ADDRESS,
+    eventName: "NameWrapped",
+    args: { node: NODE, owner: ALICE },
+    blockNumber: BigInt(17_000_000),
+    logIndex: 5,
+  },
+  {
+    address: NAME_WRAPPER_ADDRESS,
+    eventName: "TransferSingle",
+    args: { operator: ALICE, from: ZERO_ADDRESS, to: ALICE, id: WRAPPED_ID, value: BigInt(1) },
+    blockNumber: BigInt(17_000_000),
+    logIndex: 6,
+  },
+  {
+    address: NAME_WRAPPER_ADDRESS,
+    eventName: "TransferSingle",
+    args: { operator: ALICE, from: ALICE, to: CAROL, id: BigInt(1), value: BigInt(1) },
+    blockNumber: BigInt(17_100_000),
+    logIndex: 0,
+  },
+  {
+    address: NAME_WRAPPER_ADDRESS,
+    eventName: "TransferSingle",
+    args: { operator: ALICE, from: ALICE, to: BOB, id: WRAPPED_ID, value: BigInt(1) },
+    blockNumber: BigInt(17_200_000),
+    logIndex: 7,
+  },
+  {
+    address: NAME_WRAPPER_ADDRESS,
+    eventName: "TransferBatch",
+    args: { operator: BOB, from: BOB, to: CAROL, ids: [BigInt(1), WRAPPED_ID], values: [BigInt(1), BigInt(1)] },
+    blockNumber: BigInt(17_500_000),
+    logIndex: 2,
+  },
+];
+
+const matches = (value: unknown, expected: unknown) =>
+  typeof value === "string" && typeof expected === "string"
+    ? value.toLowerCase() === expected.toLowerCase()
+    : value === expected;
+
+// Serves the fixture logs the way an RPC node would filter them: by address, event, indexed args and block range
+const stubClient = () => {
+  const getLogs = vi.fn(
+    async ({ address, event, args = {}, fromBlock, toBlock }: {
+      address: string | string[];
+      event: { name: string };
+      args?: Record<string, unknown>;
+      fromBlock: bigint;
+      toBlock: bigint;
+    }) =>
+      LOGS.filter(
+        (log) =>
+          [address].flat().some((candidate) => matches(log.address, candidate)) &&
+          log.eventName === event.name &&
+          log.blockNumber >= fromBlock &&
+          log.blockNumber <= toBlock &&
+          Object.entries(args).every(([key, value]) => value === undefined || matches(log.args[key], value))
+      ).map((log) => ({ ...log, transactionHash: tx(log.blockNumber) }))
+  );
+  const client = {
+    getLogs,
+    getBlockNumber: async () => LATEST_BLOCK,
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: timestampOf(blockNumber) }),
+    readContract: async () => NAME_WRAPPER_ADDRESS,
+  };
+  return { client: client as unknown as PublicClient, getLogs };
+};
+
+const transfer = (blockNumber: bigint, logIndex: number, owner: string) => ({
+  id: `${blockNumber}-${logIndex}`,
+  domain: { id: NODE, name: NAME },
+  blockNumber: blockNumber.toString(),
+  transactionID: tx(blockNumber),
+  owner: { id: owner.toLowerCase() },
+});
+
+// What the subgraph returns for the same events
+const SUBGRAPH_DATA: DomainHistoryData = {
+  domain: {
+    id: NODE,
+    name: NAME,
+    owner: { id: NAME_WRAPPER_ADDRESS },
+    registrant: { id: NAME_WRAPPER_ADDRESS },
+    wrappedOwner: { id: CAROL },
+    createdAt: timestampOf(BigInt(10_000_000)).toString(),
+  },
+  registrations: [
+    {
+      registrationDate: timestampOf(BigInt(10_000_000)).toString(),
+      expiryDate: EXPIRY.toString(),
+      registrant: { id: NAME_WRAPPER_ADDRESS },
+    },
+  ],
+  transfers: [transfer(BigInt(17_000_000), 4, NAME_WRAPPER_ADDRESS)],
+  registrantTransfers: [
+    transfer(BigInt(10_000_000), 1, ALICE),
+    transfer(BigInt(17_000_000), 3, NAME_WRAPPER_ADDRESS),
+  ],
+  wrappedTransfers: [
+    transfer(BigInt(17_000_000), 6, ALICE),
+    transfer(BigInt(17_200_000), 7, BOB),
+    transfer(BigInt(17_500_000), 2, CAROL),
+  ],
+  registrationEvents: [
+    {
+      id: "10000000-2",
+      type: "registered",
+      domainId: NODE,
+      blockNumber: "10000000",
+      transactionID: tx(BigInt(10_000_000)),
+      expiryDate: EXPIRY.toString(),
+      registrant: { id: ALICE },
+    },
+  ],
+  truncated: false,
+};
+
+describe("fetchDomainHistoryFromRpc", () => {
+  it("matches the subgraph's data for a registered, wrapped and traded name", async () => {
+    const { client } = stubClient();
+    expect(await fetchDomainHistoryFromRpc(client, NAME)).toEqual(SUBGRAPH_DATA);
+  });
+
+  it("only reads the NameWrapper transfers of the name's holders", async () => {
+    const { client, getLogs } = stubClient();
+    await fetchDomainHistoryFromRpc(client, NAME);
+    const holders = getLogs.mock.calls
+      .filter(([{ event }]) => event.name === "TransferSingle" || event.name === "TransferBatch")
+      .map(([{ args }]) => (args?.from as string).toLowerCase());
+    expect(new Set(holders)).toEqual(new Set([ZERO_ADDRESS, ALICE, BOB, CAROL]));
+  });
+
+  it("returns null for a name that was never created", async () => {
+    const { client } = stubClient();
+    expect(await fetchDomainHistoryFromRpc(client, "missing.eth")).toBeNull();
+  });
+});
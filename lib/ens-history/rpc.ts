@@ -0,0 +1,374 @@
+import { parseAbi, type Address, type Hash, type PublicClient } from "viem";
+import { labelhash, namehash } from "viem/ens";
+import { ENSHistoryError } from "./errors";
+import { ZERO_ADDRESS } from "./normalize";
+import { NAME_WRAPPER_ADDRESS } from "./roles";
+import { BASE_REGISTRAR_ADDRESS } from "./sales";
+import type {
+  DomainHistoryData,
+  SubgraphRegistration,
+  SubgraphRegistrationEvent,
+  SubgraphTransfer,
+} from "./subgraph";
+
+// ENS Registry (mainnet): the original registry, and the registry with fallback that replaced it
+// in the 2020 migration. Old-registry events only count before the new one took over.
+const OLD_REGISTRY_ADDRESS = "0x314159265dd8dbb310642f98f50c066173c1259b";
+export const ENS_REGISTRY_ADDRESS = "0x00000000000c2e074ec69a0dfb2997ba6c7d2e1e";
+
+// Deployment blocks - nothing to scan before them
+const OLD_REGISTRY_BLOCK = BigInt(3_327_417);
+const REGISTRY_BLOCK = BigInt(9_380_380);
+const BASE_REGISTRAR_BLOCK = BigInt(9_380_410);
+const NAME_WRAPPER_BLOCK = BigInt(16_925_608);
+
+const REGISTRY_ABI = parseAbi([
+  "event Transfer(bytes32 indexed node, address owner)",
+  "event NewOwner(bytes32 indexed node, bytes32 indexed label, address owner)",
+  "function owner(bytes32 node) view returns (address)",
+]);
+
+const BASE_REGISTRAR_ABI = parseAbi([
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event NameRegistered(uint256 indexed id, address indexed owner, uint256 expires)",
+  "event NameRenewed(uint256 indexed id, uint256 expires)",
+]);
+
+const NAME_WRAPPER_ABI = parseAbi([
+  "event NameWrapped(bytes32 indexed node, bytes name, address owner, uint32 fuses, uint64 expiry)",
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+]);
+
+// getLogs block ranges adapt to the provider: halved when a request fails (range or result-size
+// limits), doubled again after each success
+const INITIAL_LOG_RANGE = BigInt(1_000_000);
+const MAX_LOG_RANGE = BigInt(5_000_000);
+const MIN_LOG_RANGE = BigInt(100);
+
+// Scan [fromBlock, toBlock] range by range with `getRange`, adapting the range size as it goes
+// `stopWhen` ends the scan after the first range it returns true for
+// Throws ENSHistoryError(502) when even the smallest range fails
+export async function getLogsInChunks<T>(
+  getRange: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+  fromBlock: bigint,
+  toBlock: bigint,
+  stopWhen?: (logs: T[]) => boolean
+): Promise<T[]> {
+  const logs: T[] = [];
+  let range = INITIAL_LOG_RANGE;
+  let from = fromBlock;
+
+  while (from <= toBlock) {
+    const to = from + range - BigInt(1) < toBlock ? from + range - BigInt(1) : toBlock;
+    let chunk: T[];
+    try {
+      chunk = await getRange(from, to);
+    } catch (error) {
+      if (range <= MIN_LOG_RANGE) {
+        console.error(`getLogs failed for blocks ${from}-${to}:`, error);
+        throw new ENSHistoryError(`Failed to read ENS event logs from the RPC (blocks ${from}-${to})`, 502);
+      }
+      range /= BigInt(2);
+      continue;
+    }
+
+    logs.push(...chunk);
+    if (stopWhen?.(chunk)) break;
+    from = to + BigInt(1);
+    range = range * BigInt(2) < MAX_LOG_RANGE ? range * BigInt(2) : MAX_LOG_RANGE;
+  }
+
+  return logs;
+}
+
+// The parts of a log the history needs
+interface LogRef {
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+}
+
+// Same id format as the subgraph (`<block>-<logIndex>`), so getLogIndex and sorting work unchanged
+const eventId = (log: LogRef) => `${log.blockNumber}-${log.logIndex}`;
+
+const byChainOrder = (a: LogRef, b: LogRef) =>
+  Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex;
+
+const toTransfer = (log: LogRef, domain: SubgraphTransfer["domain"], owner: string): SubgraphTransfer => ({
+  id: eventId(log),
+  domain,
+  blockNumber: log.blockNumber.toString(),
+  transactionID: log.transactionHash,
+  owner: { id: owner.toLowerCase() },
+});
+
+// Registry Transfer events (manager), from the old registry before the migration and the new one after
+async function fetchRegistryTransfers(
+  client: PublicClient,
+  node: Hash,
+  domain: SubgraphTransfer["domain"],
+  latestBlock: bigint
+): Promise<SubgraphTransfer[]> {
+  const scan = (address: Address, fromBlock: bigint, toBlock: bigint) =>
+    getLogsInChunks(
+      (from, to) =>
+        client.getLogs({ address, event: REGISTRY_ABI[0], args: { node }, fromBlock: from, toBlock: to }),
+      fromBlock,
+      toBlock
+    );
+  const [oldLogs, logs] = await Promise.all([
+    scan(OLD_REGISTRY_ADDRESS, OLD_REGISTRY_BLOCK, REGISTRY_BLOCK - BigInt(1)),
+    scan(ENS_REGISTRY_ADDRESS, REGISTRY_BLOCK, latestBlock),
+  ]);
+  return [...oldLogs, ...logs].sort(byChainOrder).map((log) => toTransfer(log, domain, log.args.owner!));
+}
+
+// BaseRegistrar ERC-721 transfers of a .eth 2LD (registrant), mints included like the subgraph's NameTransferred
+async function fetchRegistrantTransfers(
+  client: PublicClient,
+  tokenId: bigint,
+  domain: SubgraphTransfer["domain"],
+  latestBlock: bigint
+): Promise<SubgraphTransfer[]> {
+  const logs = await getLogsInChunks(
+    (fromBlock, toBlock) =>
+      client.getLogs({
+        address: BASE_REGISTRAR_ADDRESS,
+        event: BASE_REGISTRAR_ABI[0],
+        args: { tokenId },
+        fromBlock,
+        toBlock,
+      }),
+    BASE_REGISTRAR_BLOCK,
+    latestBlock
+  );
+  return logs.sort(byChainOrder).map((log) => toTransfer(log, domain, log.args.to!));
+}
+
+// BaseRegistrar NameRegistered / NameRenewed events of a .eth 2LD
+async function fetchRegistrarEvents(
+  client: PublicClient,
+  tokenId: bigint,
+  domainId: string,
+  latestBlock: bigint
+): Promise<SubgraphRegistrationEvent[]> {
+  const scan = <T>(getRange: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>) =>
+    getLogsInChunks(getRange, BASE_REGISTRAR_BLOCK, latestBlock);
+  const [registered, renewed] = await Promise.all([
+    scan((fromBlock, toBlock) =>
+      client.getLogs({
+        address: BASE_REGISTRAR_ADDRESS,
+        event: BASE_REGISTRAR_ABI[1],
+        args: { id: tokenId },
+        fromBlock,
+        toBlock,
+      })
+    ),
+    scan((fromBlock, toBlock) =>
+      client.getLogs({
+        address: BASE_REGISTRAR_ADDRESS,
+        event: BASE_REGISTRAR_ABI[2],
+        args: { id: tokenId },
+        fromBlock,
+        toBlock,
+      })
+    ),
+  ]);
+
+  const toEvent = (log: LogRef, type: SubgraphRegistrationEvent["type"], expires: bigint, owner?: string) => ({
+    log,
+    event: {
+      id: eventId(log),
+      type,
+      domainId,
+      blockNumber: log.blockNumber.toString(),
+      transactionID: log.transactionHash,
+      expiryDate: expires.toString(),
+      registrant: owner ? { id: owner.toLowerCase() } : undefined,
+    },
+  });
+
+  return [
+    ...registered.map((log) => toEvent(log, "registered", log.args.expires!, log.args.owner!)),
+    ...renewed.map((log) => toEvent(log, "renewed", log.args.expires!)),
+  ]
+    .sort((a, b) => byChainOrder(a.log, b.log))
+    .map(({ event }) => event);
+}
+
+interface WrapperTransferLog extends LogRef {
+  to: string;
+}
+
+// The next NameWrapper transfer (single or batch) of token `id` sent by `from`, after the log
+// position `after` and up to `toBlock`. `from` is an indexed topic, so only that holder's transfers
+// are read, and the scan stops at the first range with a match
+async function findWrapperTransfer(
+  client: PublicClient,
+  id: bigint,
+  from: Address,
+  after: Pick<LogRef, "blockNumber" | "logIndex">,
+  toBlock: bigint
+): Promise<WrapperTransferLog | undefined> {
+  const isAfter = (log: LogRef) =>
+    log.blockNumber > after.blockNumber || log.logIndex > after.logIndex;
+
+  const matches = await getLogsInChunks(
+    async (fromBlock, to) => {
+      const [single, batch] = await Promise.all([
+        client.getLogs({
+          address: NAME_WRAPPER_ADDRESS,
+          event: NAME_WRAPPER_ABI[1],
+          args: { from },
+          fromBlock,
+          toBlock: to,
+        }),
+        client.getLogs({
+          address: NAME_WRAPPER_ADDRESS,
+          event: NAME_WRAPPER_ABI[2],
+          args: { from },
+          fromBlock,
+          toBlock: to,
+        }),
+      ]);
+      return [
+        ...single.filter((log) => log.args.id === id),
+        ...batch.filter((log) => log.args.ids?.includes(id)),
+      ]
+        .map((log) => ({ ...log, to: log.args.to! }))
+        .filter(isAfter)
+        .sort(byChainOrder);
+    },
+    after.blockNumber,
+    toBlock,
+    (logs) => logs.length > 0
+  );
+  return matches[0];
+}
+
+// NameWrapper token transfers of a name (wrapped owner): the token id isn't an indexed topic, so
+// each wrap's mint is followed holder by holder (`from` is indexed) until it's burnt or wrapped again.
+// Each hop resumes where the last one stopped, so a wrap's block range is read about once.
+async function fetchWrappedTransfers(
+  client: PublicClient,
+  node: Hash,
+  domain: SubgraphTransfer["domain"],
+  latestBlock: bigint
+): Promise<SubgraphTransfer[]> {
+  const wraps = (
+    await getLogsInChunks(
+      (fromBlock, toBlock) =>
+        client.getLogs({
+          address: NAME_WRAPPER_ADDRESS,
+          event: NAME_WRAPPER_ABI[0],
+          args: { node },
+          fromBlock,
+          toBlock,
+        }),
+      NAME_WRAPPER_BLOCK,
+      latestBlock
+    )
+  ).sort(byChainOrder);
+
+  const id = BigInt(node);
+  const transfers: SubgraphTransfer[] = [];
+  for (const [i, wrap] of wraps.entries()) {
+    const endBlock = i + 1 < wraps.length ? wraps[i + 1].blockNumber : latestBlock;
+    // The mint comes from the zero address in the wrap transaction itself
+    let transfer = await findWrapperTransfer(
+      client,
+      id,
+      ZERO_ADDRESS,
+      { blockNumber: wrap.blockNumber, logIndex: -1 },
+      wrap.blockNumber
+    );
+    while (transfer) {
+      transfers.push(toTransfer(transfer, domain, transfer.to));
+      if (transfer.to.toLowerCase() === ZERO_ADDRESS) break; // Burnt (unwrapped)
+      transfer = await findWrapperTransfer(client, id, transfer.to as Address, transfer, endBlock);
+    }
+  }
+  return transfers;
+}
+
+const getBlockTimestamp = async (client: PublicClient, blockNumber: bigint) =>
+  (await client.getBlock({ blockNumber })).timestamp.toString();
+
+// Fetch stage without The Graph: rebuild a domain's history from ENS Registry, BaseRegistrar and
+// NameWrapper event logs through the RPC. Returns the same shape as fetchDomainHistory, or null
+// when the name was never created.
+export async function fetchDomainHistoryFromRpc(
+  client: PublicClient,
+  name: string
+): Promise<DomainHistoryData | null> {
+  const [label, ...parentLabels] = name.split(".");
+  const node = namehash(name);
+  const labelHash = labelhash(label);
+  const isEth2LD = parentLabels.length === 1 && parentLabels[0] === "eth";
+  const tokenId = BigInt(labelHash);
+  const domain = { id: node, name };
+  const latestBlock = await client.getBlockNumber();
+
+  // The first NewOwner for (parent, label) created the name
+  const [creation] = await getLogsInChunks(
+    (fromBlock, toBlock) =>
+      client.getLogs({
+        address: [OLD_REGISTRY_ADDRESS, ENS_REGISTRY_ADDRESS],
+        event: REGISTRY_ABI[1],
+        args: { node: namehash(parentLabels.join(".")), label: labelHash },
+        fromBlock,
+        toBlock,
+      }),
+    OLD_REGISTRY_BLOCK,
+    latestBlock,
+    (logs) => logs.length > 0
+  );
+  if (!creation) return null;
+
+  const [owner, createdAt, transfers, registrantTransfers, registrationEvents, wrappedTransfers] =
+    await Promise.all([
+      client.readContract({
+        address: ENS_REGISTRY_ADDRESS,
+        abi: REGISTRY_ABI,
+        functionName: "owner",
+        args: [node],
+      }),
+      getBlockTimestamp(client, creation.blockNumber),
+      fetchRegistryTransfers(client, node, domain, latestBlock),
+      isEth2LD ? fetchRegistrantTransfers(client, tokenId, domain, latestBlock) : [],
+      isEth2LD ? fetchRegistrarEvents(client, tokenId, node, latestBlock) : [],
+      fetchWrappedTransfers(client, node, domain, latestBlock),
+    ]);
+
+  // Like the subgraph, the registrant and wrapped owner are whoever last received the token
+  const registrant = registrantTransfers[registrantTransfers.length - 1]?.owner ?? null;
+  const wrappedOwner = wrappedTransfers[wrappedTransfers.length - 1]?.owner ?? null;
+
+  // One registration per label, describing the latest (re-)registration
+  const registrations: SubgraphRegistration[] = [];
+  const lastRegistered = registrationEvents.filter((event) => event.type === "registered").pop();
+  if (lastRegistered && registrant) {
+    registrations.push({
+      registrationDate: await getBlockTimestamp(client, BigInt(lastRegistered.blockNumber)),
+      expiryDate: registrationEvents[registrationEvents.length - 1].expiryDate,
+      registrant,
+    });
+  }
+
+  return {
+    domain: {
+      ...domain,
+      owner: { id: owner.toLowerCase() },
+      registrant,
+      wrappedOwner,
+      createdAt,
+    },
+    registrations,
+    transfers,
+    registrantTransfers,
+    wrappedTransfers,
+    registrationEvents,
+    truncated: false,
+  };
+}
@@ -0,0 +1,85 @@
+import {
+  encodeAbiParameters,
+  encodeEventTopics,
+  parseAbi,
+  parseAbiParameters,
+  parseEther,
+  type Log,
+  type PublicClient,
+} from "viem";
+import { labelhash } from "viem/ens";
+import { describe, expect, it, vi } from "vitest";
+import { createMemoryCache } from "./cache";
+import { BASE_REGISTRAR_ADDRESS, fetchSales } from "./sales";
+
+const SEAPORT = "0x00000000006c3852cbef3e08e8df289169ede581";
+const SELLER = "0x1111111111111111111111111111111111111111";
+const BUYER = "0x2222222222222222222222222222222222222222";
+const TRANSACTION = `0x${"ab".repeat(32)}` as const;
+
+const abi = parseAbi([
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event OrderFulfilled(bytes32 orderHash, address indexed offerer, address indexed zone, address recipient, (uint8 itemType, address token, uint256 identifier, uint256 amount)[] offer, (uint8 itemType, address token, uint256 identifier, uint256 amount, address recipient)[] consideration)",
+]);
+
+// The non-indexed fields of OrderFulfilled, as they sit in the log data
+const ORDER_FULFILLED_DATA = parseAbiParameters(
+  "bytes32 orderHash, address recipient, (uint8 itemType, address token, uint256 identifier, uint256 amount)[] offer, (uint8 itemType, address token, uint256 identifier, uint256 amount, address recipient)[] consideration"
+);
+
+const toLog = (address: string, topics: readonly unknown[], data: `0x${string}`, logIndex: number) =>
+  ({ address, topics, data, logIndex, blockNumber: BigInt(1), transactionHash: TRANSACTION }) as unknown as Log;
+
+// A filled OpenSea listing: the name goes straight from the seller to the buyer, never through Seaport
+const directSaleLogs = (name: string): Log[] => {
+  const tokenId = BigInt(labelhash(name.split(".")[0]));
+  const transfer = toLog(
+    BASE_REGISTRAR_ADDRESS,
+    encodeEventTopics({ abi, eventName: "Transfer", args: { from: SELLER, to: BUYER, tokenId } }),
+    "0x",
+    0
+  );
+  const fulfilled = toLog(
+    SEAPORT,
+    encodeEventTopics({ abi, eventName: "OrderFulfilled", args: { offerer: SELLER, zone: SELLER } }),
+    encodeAbiParameters(ORDER_FULFILLED_DATA, [
+      `0x${"01".repeat(32)}`,
+      BUYER,
+      [{ itemType: 2, token: BASE_REGISTRAR_ADDRESS, identifier: tokenId, amount: BigInt(1) }],
+      [
+        { itemType: 0, token: "0x0000000000000000000000000000000000000000", identifier: BigInt(0), amount: parseEther("0.95"), recipient: SELLER },
+        { itemType: 0, token: "0x0000000000000000000000000000000000000000", identifier: BigInt(0), amount: parseEther("0.05"), recipient: SEAPORT },
+      ],
+    ]),
+    1
+  );
+  return [transfer, fulfilled];
+};
+
+const stubClient = (logs: Log[]) => {
+  const getTransactionReceipt = vi.fn(async () => ({ logs }));
+  return { client: { getTransactionReceipt } as unknown as PublicClient, getTransactionReceipt };
+};
+
+describe("fetchSales", () => {
+  it("prices a direct seller to buyer Seaport sale", async () => {
+    const { client } = stubClient(directSaleLogs("example.eth"));
+    const sales = await fetchSales(client, "example.eth", [TRANSACTION]);
+    expect(sales.get(TRANSACTION)).toEqual({ marketplace: "OpenSea Seaport", price: "1", currency: "ETH" });
+  });
+
+  it("reads each receipt once with a cache", async () => {
+    const cache = createMemoryCache();
+    const { client, getTransactionReceipt } = stubClient(directSaleLogs("example.eth"));
+    await fetchSales(client, "example.eth", [TRANSACTION], cache);
+    const sales = await fetchSales(client, "example.eth", [TRANSACTION], cache);
+    expect(getTransactionReceipt).toHaveBeenCalledTimes(1);
+    expect(sales.get(TRANSACTION)?.price).toBe("1");
+  });
+
+  it("leaves out transactions without a sale of the name", async () => {
+    const { client } = stubClient(directSaleLogs("other.eth"));
+    const sales = await fetchSales(client, "example.eth", [TRANSACTION]);
+    expect(sales.size).toBe(0);
+  });
+});
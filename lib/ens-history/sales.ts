@@ -0,0 +1,143 @@
+import { formatUnits, parseAbi, parseEventLogs, type Hash, type Log, type PublicClient } from "viem";
+import { labelhash, namehash } from "viem/ens";
+import type { ENSOwner, ENSSale, ENSSaleCurrency } from "@/types/ens";
+import type { CacheStore } from "./cache";
+import { MARKETPLACE_CONTRACTS } from "./marketplaces";
+import { NAME_WRAPPER_ADDRESS } from "./roles";
+
+// ENS BaseRegistrar (mainnet) - the ERC-721 contract for unwrapped .eth names
+export const BASE_REGISTRAR_ADDRESS = "0x57f1887a8bf19b14fc0df6fd9b2acc9af147ea85";
+
+// Payment tokens we can price, by contract address (the zero address is native ETH)
+const PAYMENT_TOKENS: Record<string, { currency: ENSSaleCurrency; decimals: number }> = {
+  "0x0000000000000000000000000000000000000000": { currency: "ETH", decimals: 18 },
+  "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2": { currency: "WETH", decimals: 18 },
+  "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48": { currency: "USDC", decimals: 6 },
+};
+
+const SALE_EVENTS_ABI = parseAbi([
+  "event OrderFulfilled(bytes32 orderHash, address indexed offerer, address indexed zone, address recipient, (uint8 itemType, address token, uint256 identifier, uint256 amount)[] offer, (uint8 itemType, address token, uint256 identifier, uint256 amount, address recipient)[] consideration)",
+  "event OrdersMatched(bytes32 buyHash, bytes32 sellHash, address indexed maker, address indexed taker, uint256 price, bytes32 indexed metadata)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+// Seaport item types
+const NATIVE = 0;
+const ERC20 = 1;
+
+interface SeaportItem {
+  itemType: number;
+  token: string;
+  identifier: bigint;
+  amount: bigint;
+}
+
+// Token ids the name can be traded under: the BaseRegistrar id (labelhash) for .eth second-level
+// names and the NameWrapper id (namehash) for wrapped names
+const getTokenIds = (name: string): Set<bigint> => {
+  const ids = new Set([BigInt(namehash(name))]);
+  const labels = name.split(".");
+  if (labels.length === 2 && labels[1] === "eth") ids.add(BigInt(labelhash(labels[0])));
+  return ids;
+};
+
+const isNameToken = (item: SeaportItem, tokenIds: Set<bigint>) =>
+  [BASE_REGISTRAR_ADDRESS, NAME_WRAPPER_ADDRESS].includes(item.token.toLowerCase()) &&
+  tokenIds.has(item.identifier);
+
+// Sum the payment items of one side of an order, if they're all in one known currency
+const sumPayment = (items: readonly SeaportItem[]) => {
+  const payments = items.filter((item) => item.itemType === NATIVE || item.itemType === ERC20);
+  if (payments.length === 0) return null;
+  const token = payments[0].token.toLowerCase();
+  if (!PAYMENT_TOKENS[token] || payments.some((item) => item.token.toLowerCase() !== token)) return null;
+  return { token, amount: payments.reduce((sum, item) => sum + item.amount, BigInt(0)) };
+};
+
+const toSale = (marketplace: string, token: string, amount: bigint): ENSSale => ({
+  marketplace,
+  price: formatUnits(amount, PAYMENT_TOKENS[token].decimals),
+  currency: PAYMENT_TOKENS[token].currency,
+});
+
+// Extract the sale of `name` from a transaction's logs
+// Seaport: the order that moved the name token; the other side of that order is the price
+// (consideration for filled listings, offer for accepted bids).
+// Wyvern: OrdersMatched carries the price; the currency is ETH unless WETH/USDC moved in the same transaction.
+export function parseSaleLogs(logs: Log[], name: string): ENSSale | null {
+  const events = parseEventLogs({ abi: SALE_EVENTS_ABI, logs });
+  const tokenIds = getTokenIds(name);
+
+  for (const event of events) {
+    if (event.eventName !== "OrderFulfilled") continue;
+    const { offer, consideration } = event.args;
+    const marketplace = MARKETPLACE_CONTRACTS[event.address.toLowerCase()] ?? "Seaport";
+
+    const payment = offer.some((item) => isNameToken(item, tokenIds))
+      ? sumPayment(consideration)
+      : consideration.some((item) => isNameToken(item, tokenIds))
+        ? sumPayment(offer)
+        : null;
+    if (payment) return toSale(marketplace, payment.token, payment.amount);
+  }
+
+  const match = events.find((event) => event.eventName === "OrdersMatched");
+  if (match && match.eventName === "OrdersMatched") {
+    const marketplace = MARKETPLACE_CONTRACTS[match.address.toLowerCase()] ?? "Wyvern";
+    const tokenTransfer = events.find(
+      (event) => event.eventName === "Transfer" && PAYMENT_TOKENS[event.address.toLowerCase()]
+    );
+    const token = tokenTransfer ? tokenTransfer.address.toLowerCase() : "0x0000000000000000000000000000000000000000";
+    return toSale(marketplace, token, match.args.price);
+  }
+
+  return null;
+}
+
+// Receipts never change, so the parsed result is cached for good - "none" when there was no sale
+const saleKey = (name: string, hash: string) => `sale:${hash}:${name}`;
+const NO_SALE = "none";
+
+// Sales stage: look up the sale (if any) in each given transaction
+// Marketplaces move the name straight from seller to buyer, so every change of owner is checked;
+// with a cache, each transaction is only fetched once per name
+// Transactions that fail to load or contain no recognizable sale are left out of the returned map
+export async function fetchSales(
+  publicClient: PublicClient,
+  name: string,
+  transactionHashes: string[],
+  cache: CacheStore | null = null
+): Promise<Map<string, ENSSale>> {
+  const uniqueHashes = [...new Set(transactionHashes.filter(Boolean))];
+  const sales = new Map<string, ENSSale>();
+
+  const cached = cache ? await cache.getMany(uniqueHashes.map((hash) => saleKey(name, hash))) : [];
+  const missing = uniqueHashes.filter((hash, i) => {
+    const value = cached[i];
+    if (!value) return true;
+    if (value !== NO_SALE) sales.set(hash, JSON.parse(value));
+    return false;
+  });
+
+  const receipts = await Promise.all(
+    missing.map((hash) =>
+      publicClient.getTransactionReceipt({ hash: hash as Hash }).catch(() => null)
+    )
+  );
+
+  const fetched: Array<[string, string]> = [];
+  missing.forEach((hash, i) => {
+    const receipt = receipts[i];
+    if (!receipt) return; // Not cached: worth retrying next time
+    const sale = parseSaleLogs(receipt.logs, name);
+    if (sale) sales.set(hash, sale);
+    fetched.push([saleKey(name, hash), sale ? JSON.stringify(sale) : NO_SALE]);
+  });
+  if (cache && fetched.length > 0) await cache.setMany(fetched);
+  return sales;
+}
+
+export const withSale = (owner: ENSOwner, sales: Map<string, ENSSale>): ENSOwner => {
+  const sale = sales.get(owner.transactionHash);
+  return sale ? { ...owner, sale } : owner;
+};
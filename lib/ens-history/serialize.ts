@@ -0,0 +1,106 @@
+import type {
+  ENSBatchResult,
+  ENSBatchResultResponse,
+  ENSHistory,
+  ENSHistoryResponse,
+  ENSOwner,
+  ENSOwnerResponse,
+  ENSPortfolio,
+  ENSPortfolioResponse,
+  ENSRecordsHistory,
+  ENSRecordsHistoryResponse,
+  ENSSnapshot,
+  ENSSnapshotResponse,
+  ENSSubdomainTree,
+  ENSSubdomainTreeResponse,
+} from "@/types/ens";
+
+// Convert Date objects to ISO strings and BigInt to strings for JSON serialization
+export const serializeOwner = (owner: ENSOwner): ENSOwnerResponse => ({
+  ...owner,
+  startDate: owner.startDate.toISOString(),
+  endDate: owner.endDate ? owner.endDate.toISOString() : undefined,
+  blockNumber: owner.blockNumber !== undefined ? owner.blockNumber.toString() : undefined,
+});
+
+export const serializeHistory = (history: ENSHistory): ENSHistoryResponse => ({
+  name: history.name,
+  roles: {
+    manager: history.domain.manager,
+    registrant: history.domain.registrant,
+    wrappedOwner: history.domain.wrappedOwner,
+  },
+  owners: history.owners.map(serializeOwner),
+  currentOwner: history.currentOwner ? serializeOwner(history.currentOwner) : undefined,
+  expiryDate: history.expiryDate ? history.expiryDate.toISOString() : undefined,
+  burnEvents: history.burnEvents.map((burn) => ({
+    date: burn.date.toISOString(),
+    transactionHash: burn.transactionHash,
+    blockNumber: burn.blockNumber.toString(),
+    estimated: burn.estimated,
+  })),
+  roleChanges: history.roleChanges.map((change) => ({
+    ...change,
+    date: change.date.toISOString(),
+    blockNumber: change.blockNumber.toString(),
+  })),
+  registrationEvents: history.registrationEvents.map((event) => ({
+    ...event,
+    date: event.date.toISOString(),
+    blockNumber: event.blockNumber.toString(),
+    expiryDate: event.expiryDate.toISOString(),
+  })),
+  lifecycle: history.lifecycle
+    ? {
+      ...history.lifecycle,
+      expiryDate: history.lifecycle.expiryDate.toISOString(),
+      graceEndDate: history.lifecycle.graceEndDate.toISOString(),
+      premiumEndDate: history.lifecycle.premiumEndDate.toISOString(),
+    }
+    : undefined,
+  lapses: history.lapses.map((lapse) => ({
+    ...lapse,
+    expiryDate: lapse.expiryDate.toISOString(),
+    graceEndDate: lapse.graceEndDate.toISOString(),
+    premiumEndDate: lapse.premiumEndDate.toISOString(),
+    reregisteredDate: lapse.reregisteredDate.toISOString(),
+  })),
+  truncated: history.truncated,
+});
+
+export const serializePortfolio = (portfolio: ENSPortfolio): ENSPortfolioResponse => ({
+  ...portfolio,
+  holdings: portfolio.holdings.map((holding) => ({
+    ...holding,
+    acquiredDate: holding.acquiredDate.toISOString(),
+    releasedDate: holding.releasedDate ? holding.releasedDate.toISOString() : undefined,
+    expiryDate: holding.expiryDate ? holding.expiryDate.toISOString() : undefined,
+  })),
+});
+
+export const serializeRecordsHistory = (history: ENSRecordsHistory): ENSRecordsHistoryResponse => ({
+  ...history,
+  changes: history.changes.map((change) => ({
+    ...change,
+    date: change.date.toISOString(),
+    blockNumber: change.blockNumber.toString(),
+  })),
+});
+
+export const serializeSnapshot = (snapshot: ENSSnapshot): ENSSnapshotResponse => ({
+  ...snapshot,
+  at: snapshot.at.toISOString(),
+  blockNumber: snapshot.blockNumber !== undefined ? snapshot.blockNumber.toString() : undefined,
+  owner: snapshot.owner ? serializeOwner(snapshot.owner) : undefined,
+});
+
+export const serializeSubdomainTree = (tree: ENSSubdomainTree): ENSSubdomainTreeResponse => ({
+  ...tree,
+  subdomains: tree.subdomains.map((subdomain) => ({
+    ...subdomain,
+    createdAt: subdomain.createdAt ? subdomain.createdAt.toISOString() : undefined,
+  })),
+});
+
+export const serializeBatchResult = (result: ENSBatchResult): ENSBatchResultResponse =>
+  "history" in result ? { name: result.name, history: serializeHistory(result.history) } : result;
@@ -0,0 +1,40 @@
+import type { ENSHistory, ENSSnapshot } from "@/types/ens";
+import { getPeriodAt, getRecordsAt, getStatusAt, parseAt } from "./pointInTime";
+import { getRecordsHistory, type GetRecordsHistoryOptions } from "./records";
+import { createRpcClient, resolveTransferTimestamps } from "./timestamps";
+
+// Answer "who owned this name and what did it resolve to" at an ISO date or block number
+// Uses the same ownership periods as the timeline and the same records history as /api/ens/records
+export async function getENSSnapshot(
+  history: ENSHistory,
+  at: string,
+  options: GetRecordsHistoryOptions = {}
+): Promise<ENSSnapshot> {
+  const parsed = parseAt(at);
+  const publicClient = options.publicClient !== undefined ? options.publicClient : createRpcClient();
+
+  let date: Date;
+  let estimated = false;
+  if ("blockNumber" in parsed) {
+    [{ date, estimated }] = await resolveTransferTimestamps(
+      [{ blockNumber: parsed.blockNumber.toString() }],
+      publicClient
+    );
+  } else {
+    date = parsed.date;
+  }
+
+  const records = await getRecordsHistory(history.name, { ...options, publicClient });
+  const periods = history.currentOwner ? [...history.owners, history.currentOwner] : history.owners;
+  const status = getStatusAt(date, periods[0]?.startDate, history.registrationEvents, history.expiryDate);
+  const owned = status === "active" || status === "grace";
+
+  return {
+    at: date,
+    blockNumber: "blockNumber" in parsed ? parsed.blockNumber : undefined,
+    estimated,
+    status,
+    owner: owned ? getPeriodAt(periods, date) : undefined,
+    ...getRecordsAt(records.changes, date),
+  };
+}
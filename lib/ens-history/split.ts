@@ -0,0 +1,122 @@
+import type { ENSOwner } from "@/types/ens";
+import { getEffectiveOwner } from "./roles";
+import { parseSubgraphTimestamp, type SubgraphDomain, type SubgraphRegistration } from "./subgraph";
+
+// Registrations sorted by registration date, most recent first
+const latestFirst = (registrations: SubgraphRegistration[]) =>
+  [...registrations].sort((a, b) => parseInt(b.registrationDate) - parseInt(a.registrationDate));
+
+// Get expiry date from the most recent registration if available
+// Includes expired domains too - they're still valid expiry dates
+export function getExpiryDate(registrations: SubgraphRegistration[]): Date | undefined {
+  if (registrations.length === 0) return undefined;
+  const expiryTimestamp = parseInt(latestFirst(registrations)[0].expiryDate);
+  if (isNaN(expiryTimestamp) || expiryTimestamp <= 0) return undefined;
+  const expiry = new Date(expiryTimestamp * 1000);
+  // Validate expiry date is reasonable (after 2015 when ENS launched)
+  return expiry.getFullYear() >= 2015 ? expiry : undefined;
+}
+
+// Most recent registration date, only if the registrant matches the current owner
+// Handles newly purchased domains whose transfer hasn't been indexed yet
+const getMostRecentRegistrationDate = (
+  registrations: SubgraphRegistration[],
+  currentOwnerAddress: string
+): Date | null => {
+  if (registrations.length === 0) return null;
+  const latestReg = latestFirst(registrations)[0];
+  if (latestReg.registrant.id.toLowerCase() !== currentOwnerAddress.toLowerCase()) return null;
+  return parseSubgraphTimestamp(latestReg.registrationDate);
+};
+
+// Split stage: separate the current owner (the effective owner on the contracts) from historical owners
+// The current owner's end date is the expiry date; every historical owner gets an end date
+export function splitCurrentOwner(
+  owners: ENSOwner[],
+  domain: SubgraphDomain,
+  registrations: SubgraphRegistration[]
+): { owners: ENSOwner[]; currentOwner: ENSOwner; expiryDate?: Date } {
+  const expiryDate = getExpiryDate(registrations);
+  const currentOwnerAddress = getEffectiveOwner(domain);
+  const mostRecentRegistrationDate = getMostRecentRegistrationDate(registrations, currentOwnerAddress);
+
+  // Use most recent registration date if it's more recent than the given date (registration dates are exact)
+  const laterOfRegistration = (date: Date, estimated?: boolean) =>
+    mostRecentRegistrationDate && mostRecentRegistrationDate > date
+      ? { startDate: mostRecentRegistrationDate, startDateEstimated: undefined }
+      : { startDate: date, startDateEstimated: estimated };
+
+  if (owners.length === 0) {
+    // No transfers found, use current owner from domain
+    // Registration date, then creation date, then now
+    const registrationDate =
+      (registrations.length > 0 ? parseSubgraphTimestamp(registrations[0].registrationDate) : null) ??
+      parseSubgraphTimestamp(domain.createdAt) ??
+      new Date();
+
+    return {
+      owners: [],
+      currentOwner: {
+        address: currentOwnerAddress,
+        startDate: registrationDate,
+        endDate: expiryDate,
+        transactionHash: "",
+      },
+      expiryDate,
+    };
+  }
+
+  const lastOwner = owners[owners.length - 1];
+
+  if (lastOwner.address.toLowerCase() === currentOwnerAddress.toLowerCase()) {
+    // Last owner IS the current owner - use it and exclude from history
+    const currentOwner: ENSOwner = {
+      address: currentOwnerAddress,
+      ...laterOfRegistration(lastOwner.startDate, lastOwner.startDateEstimated),
+      endDate: expiryDate,
+      transactionHash: lastOwner.transactionHash || "",
+    };
+
+    // Historical owners should end when the next owner took over
+    const historical = owners.slice(0, -1);
+    const historicalOwners = historical.map((owner, index) => {
+      const next = index < historical.length - 1 ? historical[index + 1] : currentOwner;
+      const nextStart = { endDate: next.startDate, endDateEstimated: next.startDateEstimated };
+
+      if (owner.endDate) {
+        // Verify the end date makes sense - it should be before or equal to next owner's start
+        if (index < historical.length - 1 && owner.endDate > next.startDate) {
+          return { ...owner, ...nextStart };
+        }
+        return owner;
+      }
+
+      // Each historical owner's end date is the next owner's start date
+      // (the last one ends when the current owner took over, not today)
+      return { ...owner, ...nextStart };
+    });
+
+    return { owners: historicalOwners, currentOwner, expiryDate };
+  }
+
+  // Last owner is NOT the current owner - domain owner changed after last transfer
+  // Use the domain owner as current, and keep all transfers as historical
+  const currentOwner: ENSOwner = {
+    address: currentOwnerAddress,
+    ...(lastOwner.endDate
+      ? laterOfRegistration(lastOwner.endDate, lastOwner.endDateEstimated)
+      : laterOfRegistration(lastOwner.startDate, lastOwner.startDateEstimated)),
+    endDate: expiryDate,
+    transactionHash: "",
+  };
+
+  // Ensure the last historical owner has an end date (when current owner took over)
+  const historicalOwners = lastOwner.endDate
+    ? owners
+    : [
+        ...owners.slice(0, -1),
+        { ...lastOwner, endDate: currentOwner.startDate, endDateEstimated: currentOwner.startDateEstimated },
+      ];
+
+  return { owners: historicalOwners, currentOwner, expiryDate };
+}
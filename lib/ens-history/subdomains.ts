@@ -0,0 +1,163 @@
+import type { GraphQLClient } from "graphql-request";
+import type { Hash, PublicClient } from "viem";
+import type { ENSSubdomain, ENSSubdomainTree } from "@/types/ens";
+import { ENSHistoryError } from "./errors";
+import { decodeName, loadLabels } from "./labels";
+import { normalizeENSName } from "./names";
+import { getEffectiveOwner } from "./roles";
+import {
+  createSubgraphClient,
+  fetchAllPages,
+  fetchDomain,
+  parseSubgraphTimestamp,
+  type SubgraphDomain,
+} from "./subgraph";
+import { createRpcClient } from "./timestamps";
+
+// Direct children of a domain, paginated by id
+const GET_SUBDOMAINS = `
+  query GetSubdomains($parentId: String!, $cursor: String!, $first: Int!) {
+    rows: domains(where: { parent: $parentId, id_gt: $cursor }, orderBy: id, first: $first) {
+      id
+      name
+      owner {
+        id
+      }
+      registrant {
+        id
+      }
+      wrappedOwner {
+        id
+      }
+      createdAt
+      subdomainCount
+    }
+  }
+`;
+
+// Registry NewOwner events of a set of domains - the first one for each is its creation
+const GET_SUBDOMAIN_CREATIONS = `
+  query GetSubdomainCreations($domainIds: [String!]!, $cursor: String!, $first: Int!) {
+    rows: newOwners(where: { domain_in: $domainIds, id_gt: $cursor }, orderBy: id, first: $first) {
+      id
+      blockNumber
+      transactionID
+      domain {
+        id
+      }
+      owner {
+        id
+      }
+    }
+  }
+`;
+
+interface SubdomainRow extends SubgraphDomain {
+  subdomainCount: number;
+}
+
+interface NewOwnerRow {
+  id: string;
+  blockNumber: string;
+  transactionID: string;
+  domain: { id: string };
+  owner: { id: string };
+}
+
+// Upper bound on children listed per name
+export const MAX_SUBDOMAINS = 1000;
+// Children are looked up in chunks so `domain_in` filters stay small
+const CREATION_CHUNK_SIZE = 100;
+
+// Transaction senders, for "who created it"; failed lookups are left out of the map
+async function fetchTransactionSenders(
+  publicClient: PublicClient,
+  transactionHashes: string[]
+): Promise<Map<string, string>> {
+  const uniqueHashes = [...new Set(transactionHashes)];
+  const transactions = await Promise.all(
+    uniqueHashes.map((hash) => publicClient.getTransaction({ hash: hash as Hash }).catch(() => null))
+  );
+  const senders = new Map<string, string>();
+  uniqueHashes.forEach((hash, i) => {
+    const transaction = transactions[i];
+    if (transaction) senders.set(hash, transaction.from);
+  });
+  return senders;
+}
+
+export interface GetSubdomainsOptions {
+  subgraphClient?: GraphQLClient;
+  publicClient?: PublicClient | null; // Defaults to NEXT_PUBLIC_RPC_URL; null skips `createdBy`
+}
+
+// List the direct children of a name with their creation details
+// Throws ENSHistoryError with status 404 when the domain doesn't exist and 429 when rate-limited
+export async function getSubdomains(
+  ensName: string,
+  options: GetSubdomainsOptions = {}
+): Promise<ENSSubdomainTree> {
+  const name = normalizeENSName(ensName);
+  const subgraphClient = options.subgraphClient ?? createSubgraphClient();
+  const publicClient = options.publicClient !== undefined ? options.publicClient : createRpcClient();
+
+  const found = await fetchDomain(subgraphClient, name);
+  if (!found) {
+    throw new ENSHistoryError(`ENS domain "${name}" does not exist`, 404);
+  }
+
+  const parentId = found.domain.id;
+  const { rows: children } = await fetchAllPages<SubdomainRow>(
+    subgraphClient,
+    GET_SUBDOMAINS,
+    { parentId },
+    MAX_SUBDOMAINS + 1
+  );
+  const listed = children
+    .slice(0, MAX_SUBDOMAINS)
+    .sort((a, b) => parseInt(a.createdAt) - parseInt(b.createdAt));
+
+  // Earliest NewOwner per child
+  const firstCreation = new Map<string, NewOwnerRow>();
+  for (let i = 0; i < listed.length; i += CREATION_CHUNK_SIZE) {
+    const domainIds = listed.slice(i, i + CREATION_CHUNK_SIZE).map((child) => child.id);
+    const { rows: creations } = await fetchAllPages<NewOwnerRow>(subgraphClient, GET_SUBDOMAIN_CREATIONS, {
+      domainIds,
+    });
+    for (const creation of creations) {
+      const existing = firstCreation.get(creation.domain.id);
+      if (!existing || Number(creation.blockNumber) < Number(existing.blockNumber)) {
+        firstCreation.set(creation.domain.id, creation);
+      }
+    }
+  }
+
+  const senders = publicClient
+    ? await fetchTransactionSenders(
+      publicClient,
+      listed.flatMap((child) => firstCreation.get(child.id)?.transactionID ?? [])
+    )
+    : new Map<string, string>();
+
+  await loadLabels(listed.map((child) => child.name));
+  const subdomains: ENSSubdomain[] = listed.map((child) => {
+    const creation = firstCreation.get(child.id);
+    return {
+      name: decodeName(child.name),
+      node: child.id,
+      owner: getEffectiveOwner(child),
+      createdAt: parseSubgraphTimestamp(child.createdAt) ?? undefined,
+      createdBy: creation ? senders.get(creation.transactionID) : undefined,
+      initialOwner: creation?.owner.id,
+      creationTransactionHash: creation?.transactionID,
+      subdomainCount: Number(child.subdomainCount) || 0,
+    };
+  });
+
+  return {
+    name,
+    node: parentId,
+    subdomains,
+    truncated: children.length > MAX_SUBDOMAINS,
+  };
+}
@@ -0,0 +1,47 @@
+import type { GraphQLClient } from "graphql-request";
+import { describe, expect, it } from "vitest";
+import { fetchAllPages, fetchRegistrationEvents, TRANSFERS_PAGE_SIZE } from "./subgraph";
+
+// Serves `total` rows of registration events page by page, by id
+const stubClient = (total: number) =>
+  ({
+    request: async (_query: string, { cursor, first }: { cursor: string; first: number }) => {
+      const start = cursor ? Number(cursor) + 1 : 0;
+      const count = Math.max(Math.min(first, total - start), 0);
+      return {
+        rows: Array.from({ length: count }, (_, i) => ({
+          id: String(start + i).padStart(9, "0"),
+          blockNumber: String(start + i),
+          transactionID: "0x",
+          registration: { domain: { id: "0xdomain" } },
+          expiryDate: "0",
+        })),
+      };
+    },
+  }) as unknown as GraphQLClient;
+
+describe("fetchAllPages", () => {
+  it("reads every page of a list that fits the page cap", async () => {
+    const { rows, truncated } = await fetchAllPages(stubClient(2500), "query", {});
+    expect(rows).toHaveLength(2500);
+    expect(truncated).toBe(false);
+  });
+
+  it("flags lists cut short by the page cap", async () => {
+    const { rows, truncated } = await fetchAllPages(stubClient(Infinity), "query", {});
+    expect(rows).toHaveLength(100 * TRANSFERS_PAGE_SIZE);
+    expect(truncated).toBe(true);
+  });
+
+  it("doesn't flag lists stopped early by maxRows", async () => {
+    const { truncated } = await fetchAllPages(stubClient(Infinity), "query", {}, 10);
+    expect(truncated).toBe(false);
+  });
+});
+
+describe("fetchRegistrationEvents", () => {
+  it("passes the page cap on to the history's truncated flag", async () => {
+    expect((await fetchRegistrationEvents(stubClient(10), "0xdomain")).truncated).toBe(false);
+    expect((await fetchRegistrationEvents(stubClient(Infinity), "0xdomain")).truncated).toBe(true);
+  });
+});
@@ -0,0 +1,670 @@
+import { GraphQLClient } from "graphql-request";
+import { namehash } from "viem/ens";
+import type { ENSOwnerRole } from "@/types/ens";
+import { readCached, writeCached, type CacheStore } from "./cache";
+import { ENSHistoryError, RATE_LIMIT_MESSAGE, isRateLimitError } from "./errors";
+
+// The Graph ENS subgraph endpoint
+// Using decentralized network gateway (better rate limits with API key)
+// Subgraph ID: 5XqPmWe6gjyrJtFn9cLy237i4cWw2j9HcUJEXsP5qGtH
+export const getSubgraphUrl = () => {
+  const apiKey = process.env.THE_GRAPH_API_KEY;
+  if (apiKey) {
+    // Use gateway with API key for better rate limits
+    return `https://gateway.thegraph.com/api/${apiKey}/subgraphs/id/5XqPmWe6gjyrJtFn9cLy237i4cWw2j9HcUJEXsP5qGtH`;
+  }
+  // Fallback to hosted service (rate-limited)
+  return "https://api.thegraph.com/subgraphs/name/ensdomains/ens";
+};
+
+// Create GraphQL client
+// If using gateway URL, API key is in the URL, otherwise use header
+export const createSubgraphClient = () => {
+  const subgraphUrl = getSubgraphUrl();
+  const apiKey = process.env.THE_GRAPH_API_KEY;
+  return new GraphQLClient(subgraphUrl, {
+    // Only add Authorization header if not using gateway URL (gateway has key in URL)
+    headers: apiKey && !subgraphUrl.includes('gateway.thegraph.com')
+      ? {
+        Authorization: `Bearer ${apiKey}`,
+      }
+      : {},
+  });
+};
+
+export interface SubgraphDomain {
+  id: string;
+  name: string;
+  owner: { id: string }; // Registry owner (manager)
+  registrant?: { id: string } | null; // BaseRegistrar token owner, .eth 2LDs only
+  wrappedOwner?: { id: string } | null; // NameWrapper token owner, wrapped names only
+  createdAt: string;
+}
+
+export interface SubgraphRegistration {
+  registrationDate: string;
+  expiryDate: string;
+  registrant: { id: string };
+}
+
+export interface SubgraphTransfer {
+  id: string;
+  domain: { id: string; name: string };
+  blockNumber: string;
+  transactionID: string;
+  owner: { id: string };
+}
+
+// BaseRegistrar NameRegistered / NameRenewed event (registrations, re-registrations and renewals)
+export interface SubgraphRegistrationEvent {
+  id: string;
+  type: "registered" | "renewed";
+  domainId: string;
+  blockNumber: string;
+  transactionID: string;
+  expiryDate: string; // Expiry after the event
+  registrant?: { id: string }; // NameRegistered only
+}
+
+// Raw subgraph data for one domain - the input of the history pipeline
+export interface DomainHistoryData {
+  domain: SubgraphDomain;
+  registrations: SubgraphRegistration[];
+  transfers: SubgraphTransfer[]; // Registry Transfer events (manager)
+  registrantTransfers: SubgraphTransfer[]; // BaseRegistrar NameTransferred events (registrant)
+  wrappedTransfers: SubgraphTransfer[]; // NameWrapper WrappedTransfer events (wrapped owner)
+  registrationEvents: SubgraphRegistrationEvent[]; // Registrations and renewals, oldest first
+  truncated: boolean; // true when not every transfer could be fetched
+}
+
+// GraphQL query to get domain information by nameHash
+const GET_DOMAIN_BY_HASH = `
+  query GetDomainByHash($nameHash: String!) {
+    domain(id: $nameHash) {
+      id
+      name
+      owner {
+        id
+      }
+      registrant {
+        id
+      }
+      wrappedOwner {
+        id
+      }
+      createdAt
+      registrations {
+        registrationDate
+        expiryDate
+        registrant {
+          id
+        }
+      }
+    }
+  }
+`;
+
+// Alternative query using domain name directly
+const GET_DOMAIN_BY_NAME = `
+  query GetDomainByName($name: String!) {
+    domains(where: { name: $name }) {
+      id
+      name
+      owner {
+        id
+      }
+      registrant {
+        id
+      }
+      wrappedOwner {
+        id
+      }
+      createdAt
+    }
+    registrations(where: { domain_: { name: $name } }) {
+      registrationDate
+      expiryDate
+      registrant {
+        id
+      }
+      domain {
+        name
+      }
+    }
+  }
+`;
+
+// Fields shared by every ownership event query
+const EVENT_FIELDS = `
+      id
+      blockNumber
+      transactionID
+`;
+
+// One page of ownership events for a set of domains, starting at a block (inclusive)
+// The Graph caps unpaginated lists, so events are always fetched page by page.
+// One query per role: registry Transfer (manager), BaseRegistrar NameTransferred (registrant)
+// and NameWrapper WrappedTransfer (wrapped owner)
+const EVENT_QUERIES: Record<ENSOwnerRole, string> = {
+  manager: `
+    query GetDomainTransfers($domainIds: [String!]!, $fromBlock: Int!, $first: Int!) {
+      rows: transfers(
+        where: { domain_in: $domainIds, blockNumber_gte: $fromBlock }
+        orderBy: blockNumber
+        orderDirection: asc
+        first: $first
+      ) {
+        ${EVENT_FIELDS}
+        domain {
+          id
+          name
+        }
+        owner {
+          id
+        }
+      }
+    }
+  `,
+  registrant: `
+    query GetNameTransferreds($domainIds: [String!]!, $fromBlock: Int!, $first: Int!) {
+      rows: nameTransferreds(
+        where: { registration_: { domain_in: $domainIds }, blockNumber_gte: $fromBlock }
+        orderBy: blockNumber
+        orderDirection: asc
+        first: $first
+      ) {
+        ${EVENT_FIELDS}
+        registration {
+          domain {
+            id
+            name
+          }
+        }
+        newOwner {
+          id
+        }
+      }
+    }
+  `,
+  wrappedOwner: `
+    query GetWrappedTransfers($domainIds: [String!]!, $fromBlock: Int!, $first: Int!) {
+      rows: wrappedTransfers(
+        where: { domain_in: $domainIds, blockNumber_gte: $fromBlock }
+        orderBy: blockNumber
+        orderDirection: asc
+        first: $first
+      ) {
+        ${EVENT_FIELDS}
+        domain {
+          id
+          name
+        }
+        owner {
+          id
+        }
+      }
+    }
+  `,
+};
+
+interface EventRow {
+  id: string;
+  blockNumber: string;
+  transactionID: string;
+  domain?: { id: string; name: string };
+  owner?: { id: string };
+  registration?: { domain: { id: string; name: string } };
+  newOwner?: { id: string };
+}
+
+// Map any event row to the transfer shape used by the pipeline
+const toTransfer = (row: EventRow): SubgraphTransfer => ({
+  id: row.id,
+  domain: row.domain ?? row.registration!.domain,
+  blockNumber: String(row.blockNumber),
+  transactionID: row.transactionID,
+  owner: row.owner ?? row.newOwner!,
+});
+
+export const TRANSFERS_PAGE_SIZE = 1000;
+// Upper bound on pages per domain (100k transfers) so a single lookup can't run forever
+const MAX_TRANSFER_PAGES = 100;
+
+// Fetch every ownership event of one role for one or more domains using a block cursor
+// (registry transfers by default). Pages are requested from the last seen block (inclusive)
+// and deduplicated by id, so events sharing a block with the page boundary aren't lost.
+// `truncated` is set when the page cap is hit, when a page brings nothing new, or when a later
+// page fails.
+export async function fetchAllTransfers(
+  client: GraphQLClient,
+  domainIds: string | string[],
+  fromBlock = 0,
+  role: ENSOwnerRole = "manager"
+): Promise<{ transfers: SubgraphTransfer[]; truncated: boolean }> {
+  const ids = Array.isArray(domainIds) ? domainIds : [domainIds];
+  const transfers: SubgraphTransfer[] = [];
+  const seen = new Set<string>();
+  let cursor = fromBlock;
+
+  for (let page = 0; page < MAX_TRANSFER_PAGES; page++) {
+    let batch: SubgraphTransfer[];
+    try {
+      const data = await client.request<{ rows: EventRow[] }>(EVENT_QUERIES[role], {
+        domainIds: ids,
+        fromBlock: cursor,
+        first: TRANSFERS_PAGE_SIZE,
+      });
+      batch = (data.rows || []).map(toTransfer);
+    } catch (error) {
+      if (isRateLimitError(error)) {
+        throw new ENSHistoryError(RATE_LIMIT_MESSAGE, 429);
+      }
+      // First page failing is a real error, later pages leave us with a partial history
+      if (page === 0) throw error;
+      console.error(`Error fetching ${role} events page ${page} for ${ids.join(", ")}:`, error);
+      return { transfers, truncated: true };
+    }
+
+    const fresh = batch.filter((transfer) => !seen.has(transfer.id));
+    for (const transfer of fresh) {
+      seen.add(transfer.id);
+      transfers.push(transfer);
+    }
+
+    // A short page means we've reached the end
+    if (batch.length < TRANSFERS_PAGE_SIZE) {
+      return { transfers, truncated: false };
+    }
+
+    // A full page of already-seen transfers (one block with more transfers than a page) - can't advance
+    const lastBlock = Number(batch[batch.length - 1].blockNumber);
+    if (fresh.length === 0 || lastBlock === cursor) {
+      return { transfers, truncated: true };
+    }
+    cursor = lastBlock;
+  }
+
+  return { transfers, truncated: true };
+}
+
+// Fetch the events of all three ownership roles for one or more domains
+export async function fetchOwnershipEvents(
+  client: GraphQLClient,
+  domainIds: string | string[],
+  fromBlock = 0
+): Promise<Pick<DomainHistoryData, "transfers" | "registrantTransfers" | "wrappedTransfers" | "truncated">> {
+  const [manager, registrant, wrapped] = await Promise.all([
+    fetchAllTransfers(client, domainIds, fromBlock, "manager"),
+    fetchAllTransfers(client, domainIds, fromBlock, "registrant"),
+    fetchAllTransfers(client, domainIds, fromBlock, "wrappedOwner"),
+  ]);
+  return {
+    transfers: manager.transfers,
+    registrantTransfers: registrant.transfers,
+    wrappedTransfers: wrapped.transfers,
+    truncated: manager.truncated || registrant.truncated || wrapped.truncated,
+  };
+}
+
+// One page of registration events (by id) for a set of domains
+const REGISTRATION_EVENT_QUERIES: Record<SubgraphRegistrationEvent["type"], string> = {
+  registered: `
+    query GetNameRegistereds($domainIds: [String!]!, $cursor: String!, $first: Int!) {
+      rows: nameRegistereds(
+        where: { registration_: { domain_in: $domainIds }, id_gt: $cursor }
+        orderBy: id
+        first: $first
+      ) {
+        ${EVENT_FIELDS}
+        registration {
+          domain {
+            id
+          }
+        }
+        registrant {
+          id
+        }
+        expiryDate
+      }
+    }
+  `,
+  renewed: `
+    query GetNameReneweds($domainIds: [String!]!, $cursor: String!, $first: Int!) {
+      rows: nameReneweds(
+        where: { registration_: { domain_in: $domainIds }, id_gt: $cursor }
+        orderBy: id
+        first: $first
+      ) {
+        ${EVENT_FIELDS}
+        registration {
+          domain {
+            id
+          }
+        }
+        expiryDate
+      }
+    }
+  `,
+};
+
+interface RegistrationEventRow {
+  id: string;
+  blockNumber: string;
+  transactionID: string;
+  registration: { domain: { id: string } };
+  registrant?: { id: string };
+  expiryDate: string;
+}
+
+// Fetch every row of a query paginated by id (`rows` alias, `$cursor` / `$first` variables)
+// `maxRows` stops early (the result may overshoot it by up to a page); `truncated` is set when
+// the page cap was hit with rows still coming
+export async function fetchAllPages<T extends { id: string }>(
+  client: GraphQLClient,
+  query: string,
+  variables: Record<string, unknown>,
+  maxRows = Infinity
+): Promise<{ rows: T[]; truncated: boolean }> {
+  const rows: T[] = [];
+  let cursor = "";
+  for (let page = 0; page < MAX_TRANSFER_PAGES; page++) {
+    const data = await requestSubgraph<{ rows: T[] }>(client, query, {
+      ...variables,
+      cursor,
+      first: TRANSFERS_PAGE_SIZE,
+    });
+    rows.push(...data.rows);
+    if (data.rows.length < TRANSFERS_PAGE_SIZE || rows.length >= maxRows) {
+      return { rows, truncated: false };
+    }
+    cursor = data.rows[data.rows.length - 1].id;
+  }
+  return { rows, truncated: true };
+}
+
+// Fetch every registration and renewal of one or more domains, in block order
+// `truncated` is set when either list hit the page cap
+export async function fetchRegistrationEvents(
+  client: GraphQLClient,
+  domainIds: string | string[]
+): Promise<Pick<DomainHistoryData, "registrationEvents" | "truncated">> {
+  const ids = Array.isArray(domainIds) ? domainIds : [domainIds];
+  const events: SubgraphRegistrationEvent[] = [];
+  let truncated = false;
+
+  for (const type of ["registered", "renewed"] as const) {
+    const { rows, truncated: cut } = await fetchAllPages<RegistrationEventRow>(
+      client,
+      REGISTRATION_EVENT_QUERIES[type],
+      { domainIds: ids }
+    );
+    truncated = truncated || cut;
+    events.push(
+      ...rows.map((row) => ({
+        id: row.id,
+        type,
+        domainId: row.registration.domain.id,
+        blockNumber: String(row.blockNumber),
+        transactionID: row.transactionID,
+        expiryDate: String(row.expiryDate),
+        registrant: row.registrant,
+      }))
+    );
+  }
+
+  return {
+    registrationEvents: events.sort((a, b) => Number(a.blockNumber) - Number(b.blockNumber)),
+    truncated,
+  };
+}
+
+// Domains and registrations for a chunk of domain ids
+const GET_DOMAINS_BY_IDS = `
+  query GetDomainsByIds($ids: [String!]!, $first: Int!) {
+    domains(where: { id_in: $ids }, first: $first) {
+      id
+      name
+      owner {
+        id
+      }
+      registrant {
+        id
+      }
+      wrappedOwner {
+        id
+      }
+      createdAt
+    }
+    registrations(where: { domain_in: $ids }, first: $first) {
+      registrationDate
+      expiryDate
+      registrant {
+        id
+      }
+      domain {
+        id
+      }
+    }
+  }
+`;
+
+// Domains are loaded in chunks so `id_in` / `domain_in` filters stay small
+const DOMAIN_CHUNK_SIZE = 100;
+
+// Parse a subgraph Unix timestamp (seconds) into a Date
+// Returns null for missing values or dates outside ENS's lifetime (2015 to next year)
+export const parseSubgraphTimestamp = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const timestamp = parseInt(value);
+  if (isNaN(timestamp) || timestamp <= 0) return null;
+  const date = new Date(timestamp * 1000);
+  if (date.getFullYear() < 2015 || date.getFullYear() > new Date().getFullYear() + 1) {
+    return null;
+  }
+  return date;
+};
+
+// Fetch stage: query The Graph for a domain, its registrations and all of its transfers and renewals
+// Tries by name first, then falls back to nameHash (useful for subdomains)
+// Returns null if the domain is not indexed
+export async function fetchDomainHistory(
+  client: GraphQLClient,
+  name: string
+): Promise<DomainHistoryData | null> {
+  const found = await fetchDomain(client, name);
+  if (!found) return null;
+
+  const [events, registration] = await Promise.all([
+    fetchOwnershipEvents(client, found.domain.id),
+    fetchRegistrationEvents(client, found.domain.id),
+  ]);
+  return {
+    ...found,
+    ...events,
+    registrationEvents: registration.registrationEvents,
+    truncated: events.truncated || registration.truncated,
+  };
+}
+
+// Latest block the subgraph has indexed
+const GET_INDEXED_BLOCK = `
+  query GetIndexedBlock {
+    _meta {
+      block {
+        number
+      }
+    }
+  }
+`;
+
+export const fetchIndexedBlock = async (client: GraphQLClient): Promise<number> => {
+  const data = await requestSubgraph<{ _meta: { block: { number: number } } }>(client, GET_INDEXED_BLOCK, {});
+  return Number(data._meta.block.number);
+};
+
+// Cached histories younger than this are served without asking the subgraph anything
+const HISTORY_FRESH_MS = 60 * 1000;
+
+interface CachedDomainHistory {
+  data: DomainHistoryData;
+  indexedBlock: number; // Subgraph block the cached events are complete up to
+  fetchedAt: number;
+}
+
+// Fetch stage with a cache: the first lookup stores the full history with the subgraph's indexed
+// block, later ones only fetch ownership events newer than that block and append them.
+// The domain, its registrations and registration events are small and always re-read.
+export async function fetchDomainHistoryCached(
+  client: GraphQLClient,
+  name: string,
+  cache: CacheStore
+): Promise<DomainHistoryData | null> {
+  const key = `history:${name}`;
+  const cached = await readCached<CachedDomainHistory>(cache, key);
+  if (cached && Date.now() - cached.fetchedAt < HISTORY_FRESH_MS) return cached.data;
+
+  const indexedBlock = await fetchIndexedBlock(client);
+  if (cached && cached.indexedBlock >= indexedBlock) return cached.data;
+
+  let data: DomainHistoryData | null;
+  if (cached) {
+    const domainId = cached.data.domain.id;
+    const [found, events, registration] = await Promise.all([
+      fetchDomain(client, name),
+      fetchOwnershipEvents(client, domainId, cached.indexedBlock + 1),
+      fetchRegistrationEvents(client, domainId),
+    ]);
+    const append = (previous: SubgraphTransfer[], fresh: SubgraphTransfer[]) => {
+      const seen = new Set(previous.map((transfer) => transfer.id));
+      return [...previous, ...fresh.filter((transfer) => !seen.has(transfer.id))];
+    };
+    data = found && {
+      ...found,
+      transfers: append(cached.data.transfers, events.transfers),
+      registrantTransfers: append(cached.data.registrantTransfers, events.registrantTransfers),
+      wrappedTransfers: append(cached.data.wrappedTransfers, events.wrappedTransfers),
+      registrationEvents: registration.registrationEvents,
+      truncated: cached.data.truncated || events.truncated || registration.truncated,
+    };
+  } else {
+    data = await fetchDomainHistory(client, name);
+  }
+
+  if (data) await writeCached(cache, key, { data, indexedBlock, fetchedAt: Date.now() });
+  return data;
+}
+
+// Look up a domain and its registrations, without any events
+export async function fetchDomain(
+  client: GraphQLClient,
+  name: string
+): Promise<Pick<DomainHistoryData, "domain" | "registrations"> | null> {
+  let data: {
+    domains?: SubgraphDomain[];
+    registrations?: SubgraphRegistration[];
+  };
+  try {
+    data = await client.request(GET_DOMAIN_BY_NAME, {
+      name: name.toLowerCase(),
+    });
+  } catch (error) {
+    // Handle rate limiting, re-throw other errors
+    if (isRateLimitError(error)) {
+      throw new ENSHistoryError(RATE_LIMIT_MESSAGE, 429);
+    }
+    throw error;
+  }
+
+  if (data.domains && data.domains.length > 0) {
+    return {
+      domain: data.domains[0],
+      registrations: data.registrations || [],
+    };
+  }
+
+  // If no results by name, try by nameHash
+  try {
+    const nameHashData = await client.request<{
+      domain?: SubgraphDomain & { registrations: SubgraphRegistration[] };
+    }>(GET_DOMAIN_BY_HASH, {
+      nameHash: namehash(name),
+    });
+
+    if (nameHashData.domain) {
+      const { registrations, ...domain } = nameHashData.domain;
+      return { domain, registrations: registrations || [] };
+    }
+  } catch (hashError) {
+    // If nameHash query also fails, treat the domain as not found
+    if (isRateLimitError(hashError)) {
+      throw new ENSHistoryError(RATE_LIMIT_MESSAGE, 429);
+    }
+  }
+
+  return null;
+}
+
+// Run a subgraph query, converting rate-limit responses into ENSHistoryError(429)
+export const requestSubgraph = async <T>(
+  client: GraphQLClient,
+  query: string,
+  variables: Record<string, unknown>
+) => {
+  try {
+    return await client.request<T>(query, variables);
+  } catch (error) {
+    if (isRateLimitError(error)) {
+      throw new ENSHistoryError(RATE_LIMIT_MESSAGE, 429);
+    }
+    throw error;
+  }
+};
+
+// Fetch stage for many domains at once: domains, registrations and transfers in combined queries
+// The chunk's event pages are shared by all of its domains, so when they're truncated it can't
+// be told which domains are complete; each domain of that chunk is then refetched on its own
+// (ownership and registration events separately).
+export async function fetchDomainsHistory(
+  client: GraphQLClient,
+  domainIds: string[]
+): Promise<DomainHistoryData[]> {
+  const results: DomainHistoryData[] = [];
+
+  for (let i = 0; i < domainIds.length; i += DOMAIN_CHUNK_SIZE) {
+    const chunk = domainIds.slice(i, i + DOMAIN_CHUNK_SIZE);
+    const [{ domains, registrations }, events, registration] = await Promise.all([
+      requestSubgraph<{
+        domains: SubgraphDomain[];
+        registrations: Array<SubgraphRegistration & { domain: { id: string } }>;
+      }>(client, GET_DOMAINS_BY_IDS, { ids: chunk, first: TRANSFERS_PAGE_SIZE }),
+      fetchOwnershipEvents(client, chunk),
+      fetchRegistrationEvents(client, chunk),
+    ]);
+
+    for (const domain of domains) {
+      const domainEvents = events.truncated
+        ? await fetchOwnershipEvents(client, domain.id)
+        : {
+            transfers: events.transfers.filter((transfer) => transfer.domain.id === domain.id),
+            registrantTransfers: events.registrantTransfers.filter((transfer) => transfer.domain.id === domain.id),
+            wrappedTransfers: events.wrappedTransfers.filter((transfer) => transfer.domain.id === domain.id),
+            truncated: false,
+          };
+      const domainRegistration = registration.truncated
+        ? await fetchRegistrationEvents(client, domain.id)
+        : {
+            registrationEvents: registration.registrationEvents.filter((event) => event.domainId === domain.id),
+            truncated: false,
+          };
+      results.push({
+        domain,
+        registrations: registrations.filter((row) => row.domain.id === domain.id),
+        ...domainEvents,
+        registrationEvents: domainRegistration.registrationEvents,
+        truncated: domainEvents.truncated || domainRegistration.truncated,
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,173 @@
+import { createPublicClient, hexToBigInt, http, numberToHex, type PublicClient } from "viem";
+import { mainnet } from "viem/chains";
+import type { CacheStore } from "./cache";
+import type { SubgraphTransfer } from "./subgraph";
+
+export interface BlockTimestamp {
+  date: Date;
+  estimated: boolean; // true when the block could not be fetched and the date was derived from the block number
+}
+
+// Create a mainnet client for the configured RPC endpoint, or null when none is configured
+export const createRpcClient = (rpcUrl = process.env.NEXT_PUBLIC_RPC_URL): PublicClient | null => {
+  if (!rpcUrl) return null;
+  return createPublicClient({
+    chain: mainnet,
+    transport: http(rpcUrl, {
+      batch: {
+        batchSize: 10_240, // Batch multiple RPC requests into multicalls
+      },
+    }),
+  });
+};
+
+// Mainnet (block, unix seconds) checkpoints: block 1 and the first block of every hard fork
+// Dates between two checkpoints are interpolated, which absorbs the ice ages and the switch to
+// 12-second slots at the Merge - estimates land within hours instead of months
+const BLOCK_CHECKPOINTS: Array<[number, number]> = [
+  [1, 1438269988], // Frontier
+  [200_000, 1441661589], // Frontier thawing
+  [1_150_000, 1457981393], // Homestead
+  [1_920_000, 1469020840], // DAO fork
+  [2_463_000, 1476796771], // Tangerine Whistle
+  [2_675_000, 1479831344], // Spurious Dragon
+  [4_370_000, 1508131331], // Byzantium
+  [7_280_000, 1551383524], // Constantinople
+  [9_069_000, 1575764709], // Istanbul
+  [9_200_000, 1577953849], // Muir Glacier
+  [12_244_000, 1618481223], // Berlin
+  [12_965_000, 1628166822], // London
+  [13_773_000, 1639079723], // Arrow Glacier
+  [15_050_000, 1656586444], // Gray Glacier
+  [15_537_394, 1663224179], // The Merge
+  [17_034_870, 1681338455], // Shanghai
+  [19_426_587, 1710338135], // Cancun
+  [22_431_084, 1746612311], // Prague
+];
+
+// Past the last checkpoint: 12-second slots, with ~1% of them missed
+const POST_MERGE_BLOCK_TIME_SECONDS = 12.1;
+
+// Interpolated unix time (seconds) of a block
+const interpolateBlockTime = (blockNumber: number): number => {
+  const next = BLOCK_CHECKPOINTS.findIndex(([block]) => block > blockNumber);
+  if (next === 0) return BLOCK_CHECKPOINTS[0][1]; // Genesis
+  if (next === -1) {
+    const [lastBlock, lastTime] = BLOCK_CHECKPOINTS[BLOCK_CHECKPOINTS.length - 1];
+    return lastTime + (blockNumber - lastBlock) * POST_MERGE_BLOCK_TIME_SECONDS;
+  }
+  const [fromBlock, fromTime] = BLOCK_CHECKPOINTS[next - 1];
+  const [toBlock, toTime] = BLOCK_CHECKPOINTS[next];
+  return fromTime + ((blockNumber - fromBlock) * (toTime - fromTime)) / (toBlock - fromBlock);
+};
+
+// Estimate a block's timestamp from the checkpoint table
+export const estimateTimestampFromBlock = (blockNumber: string | bigint): Date =>
+  new Date(Math.round(interpolateBlockTime(Number(blockNumber)) * 1000));
+
+// Estimate for a block no later than `head`, a recent block of known date (e.g. the subgraph head)
+// Past the last checkpoint, dates are interpolated towards the head instead of extrapolated
+export const estimateTimestampToHead = (
+  blockNumber: number,
+  head: { blockNumber: number; timestamp: number }
+): Date => {
+  const [lastBlock, lastTime] = BLOCK_CHECKPOINTS[BLOCK_CHECKPOINTS.length - 1];
+  if (blockNumber <= lastBlock || head.blockNumber <= lastBlock) {
+    return new Date(Math.round(interpolateBlockTime(blockNumber) * 1000));
+  }
+  const seconds = lastTime + ((blockNumber - lastBlock) * (head.timestamp - lastTime)) / (head.blockNumber - lastBlock);
+  return new Date(Math.round(seconds * 1000));
+};
+
+// Blocks requested per JSON-RPC batch (most providers cap batches at 100-1000 calls)
+const BLOCK_BATCH_SIZE = 100;
+
+const blockKey = (blockNumber: string) => `block:${blockNumber}`;
+
+// Timestamp (seconds, as a decimal string) of one block, or null when it can't be loaded
+// Requests the header only (transaction hashes, not full transactions) and skips viem's block formatting
+const fetchBlockTimestamp = async (publicClient: PublicClient, blockNumber: string): Promise<string | null> => {
+  try {
+    const block = await publicClient.request({
+      method: "eth_getBlockByNumber",
+      params: [numberToHex(BigInt(blockNumber)), false],
+    });
+    return block ? hexToBigInt(block.timestamp).toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Fetch block timestamps for a set of block numbers
+// Requests go out in batches of BLOCK_BATCH_SIZE, one batch at a time
+// Blocks that fail to load are left out of the returned map
+// Block timestamps never change, so with a cache each block is only fetched once
+export async function fetchBlockTimestamps(
+  publicClient: PublicClient,
+  blockNumbers: string[],
+  cache: CacheStore | null = null
+): Promise<Map<string, Date>> {
+  const uniqueBlocks = [...new Set(blockNumbers)];
+  const timestamps = new Map<string, Date>();
+
+  if (cache) {
+    const cached = await cache.getMany(uniqueBlocks.map(blockKey));
+    uniqueBlocks.forEach((blockNumber, i) => {
+      const seconds = cached[i];
+      if (seconds) timestamps.set(blockNumber, new Date(Number(seconds) * 1000));
+    });
+  }
+
+  const missing = uniqueBlocks.filter((blockNumber) => !timestamps.has(blockNumber));
+  const fetched: Array<[string, string]> = [];
+  for (let i = 0; i < missing.length; i += BLOCK_BATCH_SIZE) {
+    const batch = missing.slice(i, i + BLOCK_BATCH_SIZE);
+    // Issued together, so the batching transport sends them as one request
+    const seconds = await Promise.all(batch.map((blockNumber) => fetchBlockTimestamp(publicClient, blockNumber)));
+    batch.forEach((blockNumber, j) => {
+      if (!seconds[j]) return;
+      timestamps.set(blockNumber, new Date(Number(seconds[j]) * 1000));
+      fetched.push([blockKey(blockNumber), seconds[j]]);
+    });
+  }
+
+  if (cache && fetched.length > 0) await cache.setMany(fetched);
+  return timestamps;
+}
+
+// Look up each transfer's block in a fetched timestamp map
+// Blocks missing from the map fall back to a checkpoint-based estimate
+export const alignTimestamps = (
+  transfers: Pick<SubgraphTransfer, "blockNumber">[],
+  timestamps: Map<string, Date>
+): BlockTimestamp[] =>
+  transfers.map((transfer) => {
+    const date = timestamps.get(transfer.blockNumber);
+    return date
+      ? { date, estimated: false }
+      : { date: estimateTimestampFromBlock(transfer.blockNumber), estimated: true };
+  });
+
+// Timestamp stage: resolve a date for every transfer (or any block-numbered event), aligned with the input array
+// With an RPC client, blocks are fetched and failures fall back to a checkpoint-based estimate.
+// Without one, every date is estimated from the checkpoint table, so dates from separate calls
+// (ownership, registrations, records) agree with each other.
+export async function resolveTransferTimestamps(
+  transfers: Pick<SubgraphTransfer, "blockNumber">[],
+  publicClient: PublicClient | null,
+  cache: CacheStore | null = null
+): Promise<BlockTimestamp[]> {
+  if (publicClient) {
+    const timestamps = await fetchBlockTimestamps(
+      publicClient,
+      transfers.map((transfer) => transfer.blockNumber),
+      cache
+    );
+    return alignTimestamps(transfers, timestamps);
+  }
+
+  return transfers.map((transfer) => ({
+    date: estimateTimestampFromBlock(transfer.blockNumber),
+    estimated: true,
+  }));
+}
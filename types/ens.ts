@@ -1,20 +1,298 @@
+// The three ways an address can control a name:
+// - registrant: owner of the .eth BaseRegistrar NFT
+// - manager: owner in the ENS Registry (the "controller")
+// - wrappedOwner: owner of the NameWrapper token, for wrapped names
+export type ENSOwnerRole = "registrant" | "manager" | "wrappedOwner";
+
+export type ENSSaleCurrency = "ETH" | "WETH" | "USDC";
+
+// Marketplace sale that started an ownership period
+export interface ENSSale {
+  marketplace: string;
+  price: string; // Decimal amount in `currency`
+  currency: ENSSaleCurrency;
+  priceUsd?: number; // USD value on the day of the sale, when a price table is configured
+}
+
 export interface ENSOwner {
   address: string;
   ensName?: string;
   startDate: Date;
   endDate?: Date;
+  startDateEstimated?: boolean; // true when the date was derived from the block number
+  endDateEstimated?: boolean;
   transactionHash: string;
+  blockNumber?: bigint;
   isMarketplace?: boolean;
   marketplaceName?: string;
   isBurned?: boolean;
+  changedRoles?: ENSOwnerRole[]; // Roles that changed hands in the transaction that started this period
+  sale?: ENSSale;
+  avatar?: string;
+  followersCount?: number;
+  followingCount?: number;
 }
 
 export interface ENSDomain {
   name: string;
   node: string;
-  owner: string;
+  owner: string; // Effective owner (wrapped owner, then registrant, then manager)
+  manager?: string;
+  registrant?: string;
+  wrappedOwner?: string;
   resolver?: string;
   registrationDate?: Date;
   expiryDate?: Date;
 }
 
+// Transfer to the zero address (burn / revoke) - an event, not an ownership period
+export interface ENSBurnEvent {
+  date: Date;
+  transactionHash: string;
+  blockNumber: bigint;
+  estimated: boolean; // true when the date was derived from the block number
+}
+
+// One change of a single role
+export interface ENSRoleChange {
+  role: ENSOwnerRole;
+  address: string;
+  date: Date;
+  transactionHash: string;
+  blockNumber: bigint;
+  estimated: boolean; // true when the date was derived from the block number
+}
+
+// Registration, re-registration or renewal - extends the expiry without changing hands
+export interface ENSRegistrationEvent {
+  type: "registration" | "renewal";
+  date: Date;
+  transactionHash: string;
+  blockNumber: bigint;
+  registrant?: string; // Registrations only
+  payer?: string; // Transaction sender - anyone can pay for a renewal
+  expiryDate: Date; // Expiry after the event
+  durationAdded?: number; // in milliseconds, from the previous expiry (or the event date for registrations)
+  baseCost?: string; // ETH, when the controller event could be read
+  premium?: string; // ETH, registrations of recently expired names only
+  estimated: boolean; // true when the date was derived from the block number
+}
+
+// Active until expiry, then 90 days of grace, a 21-day premium auction, then open to anyone
+export type ENSLifecycleStatus = "active" | "grace" | "premium" | "available";
+
+export interface ENSLifecycle {
+  status: ENSLifecycleStatus;
+  expiryDate: Date;
+  graceEndDate: Date;
+  premiumEndDate: Date;
+  premiumUsd?: number; // Current temporary premium, during the premium auction only
+}
+
+// The name expired, passed through grace and was registered again (possibly by someone else)
+export interface ENSLapse {
+  expiryDate: Date;
+  graceEndDate: Date;
+  premiumEndDate: Date;
+  reregisteredDate: Date;
+  transactionHash: string; // Re-registration transaction
+  registrant?: string;
+  premium?: string; // ETH premium paid on re-registration, when known
+}
+
+// Full ownership history of a domain as produced by lib/ens-history
+export interface ENSHistory {
+  name: string;
+  domain: ENSDomain;
+  owners: ENSOwner[]; // Historical owners, oldest first (current owner excluded)
+  currentOwner?: ENSOwner;
+  expiryDate?: Date;
+  burnEvents: ENSBurnEvent[];
+  roleChanges: ENSRoleChange[]; // Every registrant / manager / wrapped owner change, oldest first
+  registrationEvents: ENSRegistrationEvent[]; // Registrations and renewals, oldest first
+  lifecycle?: ENSLifecycle; // Current state, for names with an expiry
+  lapses: ENSLapse[]; // Oldest first
+  truncated: boolean; // true when the transfer list is incomplete (page cap hit or a page failed)
+}
+
+// JSON-serialized forms returned by the API routes (Dates as ISO strings, bigints as strings)
+export interface ENSOwnerResponse extends Omit<ENSOwner, "startDate" | "endDate" | "blockNumber"> {
+  startDate: string;
+  endDate?: string;
+  blockNumber?: string;
+}
+
+export interface ENSBurnEventResponse {
+  date: string;
+  transactionHash: string;
+  blockNumber: string;
+  estimated: boolean;
+}
+
+export interface ENSRoleChangeResponse extends Omit<ENSRoleChange, "date" | "blockNumber"> {
+  date: string;
+  blockNumber: string;
+}
+
+export interface ENSRegistrationEventResponse
+  extends Omit<ENSRegistrationEvent, "date" | "blockNumber" | "expiryDate"> {
+  date: string;
+  blockNumber: string;
+  expiryDate: string;
+}
+
+export interface ENSLifecycleResponse
+  extends Omit<ENSLifecycle, "expiryDate" | "graceEndDate" | "premiumEndDate"> {
+  expiryDate: string;
+  graceEndDate: string;
+  premiumEndDate: string;
+}
+
+export interface ENSLapseResponse
+  extends Omit<ENSLapse, "expiryDate" | "graceEndDate" | "premiumEndDate" | "reregisteredDate"> {
+  expiryDate: string;
+  graceEndDate: string;
+  premiumEndDate: string;
+  reregisteredDate: string;
+}
+
+export interface ENSHistoryResponse {
+  name: string;
+  roles: Pick<ENSDomain, "manager" | "registrant" | "wrappedOwner">; // Current holder of each role
+  owners: ENSOwnerResponse[];
+  currentOwner?: ENSOwnerResponse;
+  expiryDate?: string;
+  burnEvents: ENSBurnEventResponse[];
+  roleChanges: ENSRoleChangeResponse[];
+  registrationEvents: ENSRegistrationEventResponse[];
+  lifecycle?: ENSLifecycleResponse;
+  lapses: ENSLapseResponse[];
+  snapshot?: ENSSnapshotResponse; // Only when queried with `at`
+  truncated: boolean;
+}
+
+// One name of a batch lookup: its history, or why it couldn't be built
+export type ENSBatchResult =
+  | { name: string; history: ENSHistory }
+  | { name: string; error: string; status: number };
+
+export type ENSBatchResultResponse =
+  | { name: string; history: ENSHistoryResponse }
+  | { name: string; error: string; status: number };
+
+// What a record change touched: the resolver itself, an address (per coin type), the contenthash or a text record
+export type ENSRecordChangeType = "resolver" | "addr" | "contenthash" | "text";
+
+export interface ENSRecordChange {
+  type: ENSRecordChangeType;
+  date: Date;
+  transactionHash: string;
+  blockNumber: bigint;
+  resolver: string; // Resolver contract; for "resolver" changes, the new resolver (zero address when cleared)
+  coinType?: string; // addr only, SLIP-44 ("60" is ETH)
+  key?: string; // text only, e.g. "avatar", "url", "com.twitter"
+  value?: string; // New value (address, hex contenthash, text); undefined when not indexed
+  isActive: boolean; // false when the change was made on a resolver the name wasn't using at the time
+  estimated: boolean; // true when the date was derived from the block number
+}
+
+// Resolver and record changes of a domain as produced by lib/ens-history
+export interface ENSRecordsHistory {
+  name: string;
+  resolver?: string; // Current resolver
+  changes: ENSRecordChange[]; // Oldest first
+  truncated: boolean; // true when not every record change could be fetched
+}
+
+export interface ENSRecordChangeResponse extends Omit<ENSRecordChange, "date" | "blockNumber"> {
+  date: string;
+  blockNumber: string;
+}
+
+export interface ENSRecordsHistoryResponse extends Omit<ENSRecordsHistory, "changes"> {
+  changes: ENSRecordChangeResponse[];
+}
+
+// Who owned a name and what it resolved to at a given moment
+export interface ENSSnapshot {
+  at: Date;
+  blockNumber?: bigint; // Set when queried by block
+  estimated: boolean; // true when the block's date was derived from its number
+  status?: ENSLifecycleStatus; // undefined before the name was first registered
+  owner?: ENSOwner; // Ownership period covering `at`; undefined once the name was open to anyone
+  resolver?: string;
+  address?: string; // ETH address the name resolved to
+  contenthash?: string;
+  texts: Record<string, string>;
+}
+
+export interface ENSSnapshotResponse extends Omit<ENSSnapshot, "at" | "blockNumber" | "owner"> {
+  at: string;
+  blockNumber?: string;
+  owner?: ENSOwnerResponse;
+}
+
+// A direct child of a name
+export interface ENSSubdomain {
+  name: string; // "[labelhash].parent" when the label is unknown
+  node: string;
+  owner: string; // Current effective owner
+  createdAt?: Date;
+  createdBy?: string; // Sender of the transaction that created it (needs an RPC endpoint)
+  initialOwner?: string; // Owner it was created for
+  creationTransactionHash?: string;
+  subdomainCount: number;
+}
+
+export interface ENSSubdomainTree {
+  name: string;
+  node: string;
+  subdomains: ENSSubdomain[]; // Oldest first
+  truncated: boolean; // true when the name has more children than are listed
+}
+
+export interface ENSSubdomainResponse extends Omit<ENSSubdomain, "createdAt"> {
+  createdAt?: string;
+}
+
+export interface ENSSubdomainTreeResponse extends Omit<ENSSubdomainTree, "subdomains"> {
+  subdomains: ENSSubdomainResponse[];
+}
+
+// How an address came to hold a name
+export type ENSAcquisitionType = "registration" | "transfer" | "marketplace";
+
+// One period during which an address held a name
+export interface ENSHolding {
+  name: string;
+  acquiredDate: Date;
+  releasedDate?: Date; // undefined while still held
+  acquiredDateEstimated?: boolean; // true when the date was derived from the block number
+  releasedDateEstimated?: boolean;
+  acquiredVia: ENSAcquisitionType;
+  marketplaceName?: string;
+  transactionHash: string;
+  isCurrent: boolean;
+  expiryDate?: Date;
+}
+
+// Every name an address has ever held, as produced by lib/ens-history
+export interface ENSPortfolio {
+  address: string;
+  ensName?: string; // Set when the portfolio was looked up by name
+  holdings: ENSHolding[]; // Most recently acquired first
+  truncated: boolean;
+}
+
+export interface ENSHoldingResponse extends Omit<ENSHolding, "acquiredDate" | "releasedDate" | "expiryDate"> {
+  acquiredDate: string;
+  releasedDate?: string;
+  expiryDate?: string;
+}
+
+export interface ENSPortfolioResponse {
+  address: string;
+  ensName?: string;
+  holdings: ENSHoldingResponse[];
+  truncated: boolean;
+}